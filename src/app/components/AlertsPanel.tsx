@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { describeAlert, type AlertCondition, type AlertRule } from "../lib/alerts";
+import { PROVIDERS } from "../lib/providers";
+import type { SymbolInfo } from "../lib/utils";
+
+type ConditionType = AlertCondition["type"];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  price: "Price crosses",
+  percentMove: "% move",
+  macdCross: "MACD cross",
+  rsi: "RSI",
+};
+
+interface AlertsPanelProps {
+  alerts: AlertRule[];
+  /** The selected provider; alerts made on another one are not checked meanwhile. */
+  providerId: string;
+  symbol: SymbolInfo;
+  interval: string;
+  lastPrice?: string;
+  onAdd: (alert: Omit<AlertRule, "id" | "providerId" | "createdAt" | "active">) => void;
+  onRemove: (id: string) => void;
+  onToggle: (id: string) => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+export default function AlertsPanel({
+  alerts, providerId, symbol, interval, lastPrice, onAdd, onRemove, onToggle,
+}: AlertsPanelProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [type, setType] = useState<ConditionType>("price");
+  const [direction, setDirection] = useState("up");
+  const [level, setLevel] = useState("");
+  const [percent, setPercent] = useState("2");
+  const [bars, setBars] = useState("5");
+  const [threshold, setThreshold] = useState("70");
+  const [period, setPeriod] = useState("14");
+  const [repeat, setRepeat] = useState(false);
+
+  const openForm = () => {
+    setLevel(lastPrice ?? "");
+    setShowForm(!showForm);
+  };
+
+  const buildCondition = (): AlertCondition | null => {
+    switch (type) {
+      case "price": {
+        const value = parseFloat(level);
+        return value > 0 ? { type, direction: direction as "up" | "down" | "any", level: value } : null;
+      }
+      case "percentMove": {
+        const p = parseFloat(percent);
+        const n = parseInt(bars, 10);
+        return p > 0 && n > 0 ? { type, percent: p, bars: n } : null;
+      }
+      case "macdCross":
+        return { type, direction: direction as "up" | "down" | "any" };
+      case "rsi": {
+        const t = parseFloat(threshold);
+        const n = parseInt(period, 10);
+        return t > 0 && t < 100 && n > 1
+          ? { type, direction: direction === "below" ? "below" : "above", threshold: t, period: n }
+          : null;
+      }
+    }
+  };
+
+  const submit = () => {
+    const condition = buildCondition();
+    if (!condition) return;
+    onAdd({ symbol: symbol.symbol, pair: symbol.pair, interval, condition, repeat });
+    setShowForm(false);
+  };
+
+  const changeType = (next: ConditionType) => {
+    setType(next);
+    setDirection(next === "rsi" ? "above" : "up");
+  };
+
+  return (
+    <div className="border-t border-[#2a2e37]">
+      <div className="flex items-center justify-between px-3 py-2">
+        <h3 className="text-xs font-semibold text-gray-400">Alerts</h3>
+        <button onClick={openForm} className="text-xs text-gray-500 hover:text-yellow-400">
+          {showForm ? "Cancel" : "+ New"}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="animate-fade-in space-y-1.5 px-3 pb-2 text-[11px] text-gray-400">
+          <div className="flex gap-1.5">
+            <select value={type} onChange={(e) => changeType(e.target.value as ConditionType)} className={inputClass}>
+              {(Object.keys(CONDITION_LABELS) as ConditionType[]).map((t) => (
+                <option key={t} value={t}>{CONDITION_LABELS[t]}</option>
+              ))}
+            </select>
+            {type !== "percentMove" && (
+              <select value={direction} onChange={(e) => setDirection(e.target.value)} className={inputClass}>
+                {type === "rsi" ? (
+                  <>
+                    <option value="above">above</option>
+                    <option value="below">below</option>
+                  </>
+                ) : (
+                  <>
+                    <option value="up">up</option>
+                    <option value="down">down</option>
+                    <option value="any">either way</option>
+                  </>
+                )}
+              </select>
+            )}
+          </div>
+
+          {type === "price" && (
+            <input value={level} onChange={(e) => setLevel(e.target.value)} placeholder="Price" className={inputClass} />
+          )}
+          {type === "percentMove" && (
+            <div className="flex items-center gap-1.5">
+              <input value={percent} onChange={(e) => setPercent(e.target.value)} className={inputClass} />
+              <span className="shrink-0">% in</span>
+              <input value={bars} onChange={(e) => setBars(e.target.value)} className={inputClass} />
+              <span className="shrink-0">bars</span>
+            </div>
+          )}
+          {type === "rsi" && (
+            <div className="flex items-center gap-1.5">
+              <input value={threshold} onChange={(e) => setThreshold(e.target.value)} className={inputClass} />
+              <span className="shrink-0">period</span>
+              <input value={period} onChange={(e) => setPeriod(e.target.value)} className={inputClass} />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+              Repeat
+            </label>
+            <span className="text-gray-600">{symbol.pair} · {interval}</span>
+            <button onClick={submit} className="rounded bg-yellow-400/20 px-2 py-0.5 text-yellow-400 hover:bg-yellow-400/30">
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-32 overflow-y-auto">
+        {alerts.length === 0 && !showForm && (
+          <p className="px-3 pb-2 text-[11px] text-gray-600">No alerts</p>
+        )}
+        {alerts.map((alert) => (
+          <div key={alert.id} className="group flex items-center gap-2 px-3 py-1 text-[11px] hover:bg-[#1a1d23]">
+            <button
+              onClick={() => onToggle(alert.id)}
+              title={alert.active ? "Pause" : "Re-arm"}
+              className={`h-2 w-2 shrink-0 rounded-full ${alert.active ? "bg-[#0ecb81]" : "bg-gray-600"}`}
+            />
+            <div className="min-w-0 flex-1">
+              <div className={`truncate ${alert.active ? "text-gray-300" : "text-gray-500"}`}>{describeAlert(alert)}</div>
+              {alert.providerId !== providerId && (
+                <div className="text-[10px] text-gray-600">Checked on {PROVIDERS.find((p) => p.id === alert.providerId)?.name ?? alert.providerId} only</div>
+              )}
+              {alert.triggeredAt && (
+                <div className="text-[10px] text-gray-600">
+                  Triggered {new Date(alert.triggeredAt).toLocaleString()}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => onRemove(alert.id)}
+              className="text-gray-600 opacity-0 hover:text-[#f6465d] group-hover:opacity-100"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Chart } from "klinecharts";
+import {
+  DEFAULT_STRATEGY, EXIT_LABELS, HISTORY_DEPTHS, RULE_TEMPLATES,
+  clearBacktest, describeRule, loadStrategy, runBacktest, saveStrategy, showBacktest,
+  type BacktestResult, type HistoryExtender, type RuleCondition, type RuleType, type StrategyConfig,
+} from "../lib/backtest";
+import { formatPrice, type SymbolInfo } from "../lib/utils";
+import { describeDataError, toDataError } from "../lib/providers";
+
+interface BacktestPanelProps {
+  symbol: SymbolInfo;
+  interval: string;
+  /** The chart whose bars are tested and where results are drawn. */
+  getChart: () => Chart | undefined;
+  /** Deepens that chart's history when more bars are tested than it has loaded. */
+  getHistoryExtender: () => HistoryExtender | undefined;
+  /** Identifies the tested chart and series; results are cleared when it changes. */
+  scope: string;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+interface NumberFieldProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+  min?: number;
+  integer?: boolean;
+  /** Allows clearing the field, which reports null. */
+  optional?: boolean;
+  placeholder?: string;
+  title?: string;
+  className?: string;
+}
+
+// Raw input text so partially typed numbers don't get clobbered
+function NumberField({ value, onChange, min = 0, integer, optional, placeholder, title, className }: NumberFieldProps) {
+  const [text, setText] = useState(value === null ? "" : String(value));
+
+  // Follow outside changes such as the saved strategy loading
+  useEffect(() => {
+    setText((prev) => (parseFloat(prev) === value || (prev.trim() === "" && value === null) ? prev : value === null ? "" : String(value)));
+  }, [value]);
+
+  const change = (next: string) => {
+    setText(next);
+    if (next.trim() === "") {
+      if (optional) onChange(null);
+      return;
+    }
+    const n = parseFloat(next);
+    if (Number.isFinite(n) && n >= min) onChange(integer ? Math.round(n) : n);
+  };
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => change(e.target.value)}
+      inputMode="decimal"
+      placeholder={placeholder}
+      title={title}
+      className={`${inputClass} ${className ?? ""}`}
+    />
+  );
+}
+
+function RuleRow({ rule, onChange, onRemove }: {
+  rule: RuleCondition;
+  onChange: (rule: RuleCondition) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={rule.type}
+        onChange={(e) => onChange(RULE_TEMPLATES[e.target.value as RuleType].rule)}
+        className={`${inputClass} w-28 flex-none`}
+      >
+        {(Object.keys(RULE_TEMPLATES) as RuleType[]).map((t) => (
+          <option key={t} value={t}>{RULE_TEMPLATES[t].label}</option>
+        ))}
+      </select>
+      {(rule.type === "maCross" || rule.type === "priceMa") && (
+        <select
+          value={rule.kind}
+          onChange={(e) => onChange({ ...rule, kind: e.target.value as "sma" | "ema" })}
+          className={`${inputClass} w-14 flex-none`}
+        >
+          <option value="sma">SMA</option>
+          <option value="ema">EMA</option>
+        </select>
+      )}
+      {rule.type === "maCross" && (
+        <>
+          <NumberField value={rule.fast} min={1} integer onChange={(v) => onChange({ ...rule, fast: v ?? rule.fast })} title="Fast period" className="w-10" />
+          <NumberField value={rule.slow} min={1} integer onChange={(v) => onChange({ ...rule, slow: v ?? rule.slow })} title="Slow period" className="w-10" />
+        </>
+      )}
+      {(rule.type === "priceMa" || rule.type === "rsi") && (
+        <NumberField value={rule.period} min={2} integer onChange={(v) => onChange({ ...rule, period: v ?? rule.period })} title="Period" className="w-10" />
+      )}
+      <select
+        value={rule.direction}
+        onChange={(e) => onChange({ ...rule, direction: e.target.value as "above" | "below" })}
+        className={`${inputClass} w-16 flex-none`}
+      >
+        <option value="above">{rule.type === "rsi" ? "above" : "up"}</option>
+        <option value="below">{rule.type === "rsi" ? "below" : "down"}</option>
+      </select>
+      {rule.type === "rsi" && (
+        <NumberField value={rule.threshold} onChange={(v) => onChange({ ...rule, threshold: v ?? rule.threshold })} title="Threshold" className="w-10" />
+      )}
+      <button onClick={onRemove} title="Remove rule" className="px-1 text-gray-600 hover:text-[#f6465d]">✕</button>
+    </div>
+  );
+}
+
+/**
+ * Strategy editor and results for the rule-based backtester. Runs over the
+ * active chart's bars, optionally paging in deeper history first, and draws
+ * trade markers and an equity pane on that chart.
+ */
+export default function BacktestPanel({ symbol, interval, getChart, getHistoryExtender, scope, onClose }: BacktestPanelProps) {
+  const [config, setConfig] = useState<StrategyConfig>(DEFAULT_STRATEGY);
+  const [depth, setDepth] = useState(HISTORY_DEPTHS[0]);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const shownOnRef = useRef<Chart | null>(null);
+  const scopeRef = useRef(scope);
+  scopeRef.current = scope;
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setConfig(loadStrategy()); }, []);
+
+  const update = (patch: Partial<StrategyConfig>) => {
+    setConfig((prev) => {
+      const next = { ...prev, ...patch };
+      saveStrategy(next);
+      return next;
+    });
+  };
+
+  // Results belong to one chart and series; drop them when either changes or the panel closes
+  useEffect(() => {
+    setResult(null);
+    setHistoryError(null);
+    return () => {
+      if (shownOnRef.current) clearBacktest(shownOnRef.current);
+      shownOnRef.current = null;
+    };
+  }, [scope]);
+
+  const run = async () => {
+    const chart = getChart();
+    if (!chart || running) return;
+    const runScope = scope;
+    setRunning(true);
+    setHistoryError(null);
+    let bars = chart.getDataList();
+    const extend = getHistoryExtender();
+    if (depth > bars.length && extend) {
+      // The panel pages in its own candles and shows them through its bar transform,
+      // so the test runs on exactly the bars on the chart
+      let extended: typeof bars;
+      try {
+        extended = await extend(depth);
+      } catch (error) {
+        // Testing fewer bars than asked for would be misleading, so nothing runs
+        if (scopeRef.current === runScope) setHistoryError(describeDataError(toDataError(error)));
+        setRunning(false);
+        return;
+      }
+      if (scopeRef.current !== runScope) {
+        setRunning(false);
+        return;
+      }
+      bars = extended;
+    }
+    const next = runBacktest(bars, config, interval);
+    showBacktest(chart, next);
+    shownOnRef.current = chart;
+    setResult(next);
+    setRunning(false);
+  };
+
+  const clear = () => {
+    if (shownOnRef.current) clearBacktest(shownOnRef.current);
+    shownOnRef.current = null;
+    setResult(null);
+  };
+
+  const rules = (key: "entry" | "exit") => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-gray-500">
+        <span>{key === "entry" ? "Enter when all of" : "Exit when any of"}</span>
+        <button
+          onClick={() => update({ [key]: [...config[key], RULE_TEMPLATES.rsi.rule] })}
+          className="hover:text-yellow-400"
+        >
+          + Rule
+        </button>
+      </div>
+      {config[key].map((rule, i) => (
+        <RuleRow
+          key={i}
+          rule={rule}
+          onChange={(next) => update({ [key]: config[key].map((r, j) => (j === i ? next : r)) })}
+          onRemove={() => update({ [key]: config[key].filter((_, j) => j !== i) })}
+        />
+      ))}
+      {config[key].length === 0 && (
+        <div className="text-gray-600">{key === "entry" ? "No entry rules: nothing will trade" : "Exits only by stop, target or end of data"}</div>
+      )}
+    </div>
+  );
+
+  const m = result?.metrics;
+  const pnlClass = (value: number) => (value >= 0 ? "text-[#0ecb81]" : "text-[#f6465d]");
+
+  return (
+    <div className="flex h-72 flex-none flex-col border-t border-[#2a2e37] bg-[#0b0e11] text-[11px]">
+      <div className="flex items-center gap-3 border-b border-[#2a2e37] px-3 py-1.5">
+        <h3 className="text-xs font-semibold text-gray-400">Strategy Backtest</h3>
+        <span className="text-gray-600">{symbol.pair} · {interval}</span>
+        <div className="ml-auto flex items-center gap-2">
+          {result && <button onClick={clear} className="text-gray-500 hover:text-gray-300">Clear</button>}
+          <button onClick={onClose} title="Close" className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        {/* Strategy */}
+        <div className="w-[26rem] flex-none space-y-2 overflow-y-auto border-r border-[#2a2e37] p-2 text-gray-400">
+          <div className="flex items-center gap-1.5">
+            <select value={config.side} onChange={(e) => update({ side: e.target.value as "long" | "short" })} className={`${inputClass} w-20`}>
+              <option value="long">Long</option>
+              <option value="short">Short</option>
+            </select>
+            <span className="text-gray-600">Bars</span>
+            <select value={depth} onChange={(e) => setDepth(Number(e.target.value))} className={`${inputClass} w-24`}>
+              {HISTORY_DEPTHS.map((d) => (
+                <option key={d} value={d}>{d === 0 ? "Loaded" : d}</option>
+              ))}
+            </select>
+            <button
+              onClick={run}
+              disabled={running || config.entry.length === 0}
+              className="ml-auto rounded bg-yellow-400 px-3 py-0.5 font-semibold text-black hover:bg-yellow-300 disabled:opacity-50"
+            >
+              {running ? "Running…" : "Run"}
+            </button>
+          </div>
+          {historyError && <div className="text-[#f6465d]">Could not load history: {historyError}</div>}
+
+          {rules("entry")}
+          {rules("exit")}
+
+          <div className="grid grid-cols-4 gap-1.5">
+            <label className="col-span-2 flex items-center gap-1">
+              <select
+                value={config.sizing.type}
+                onChange={(e) => update({ sizing: { ...config.sizing, type: e.target.value as "percent" | "fixed" } })}
+                className={`${inputClass} w-24`}
+              >
+                <option value="percent">% equity</option>
+                <option value="fixed">Fixed {symbol.quoteAsset}</option>
+              </select>
+              <NumberField
+                value={config.sizing.value}
+                onChange={(v) => update({ sizing: { ...config.sizing, value: v ?? config.sizing.value } })}
+              />
+            </label>
+            <label className="col-span-2 flex items-center gap-1">
+              <span className="text-gray-600">Capital</span>
+              <NumberField
+                value={config.initialCapital}
+                min={1}
+                onChange={(v) => update({ initialCapital: v ?? config.initialCapital })}
+              />
+            </label>
+            {([
+              ["feePct", "Fee %"],
+              ["slippagePct", "Slip %"],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex flex-col gap-0.5">
+                <span className="text-gray-600">{label}</span>
+                <NumberField value={config[key]} onChange={(v) => update({ [key]: v ?? config[key] })} />
+              </label>
+            ))}
+            {([
+              ["stopLossPct", "Stop %"],
+              ["takeProfitPct", "Target %"],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex flex-col gap-0.5">
+                <span className="text-gray-600">{label}</span>
+                <NumberField
+                  value={config[key]}
+                  optional
+                  placeholder="off"
+                  onChange={(v) => update({ [key]: v && v > 0 ? v : null })}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex min-w-0 flex-1 flex-col">
+          {!result || !m ? (
+            <div className="flex flex-1 items-center justify-center text-gray-600">
+              {config.entry.map(describeRule).join(" and ") || "Add an entry rule"} — run to see trades and metrics
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-7 gap-2 border-b border-[#2a2e37] px-3 py-2">
+                {[
+                  { label: "Net PnL", value: `${m.netPnl >= 0 ? "+" : ""}${m.netPnl.toFixed(2)} (${m.netPnlPct.toFixed(2)}%)`, className: pnlClass(m.netPnl) },
+                  { label: "Trades", value: String(m.trades) },
+                  { label: "Win rate", value: `${m.winRate.toFixed(1)}%` },
+                  { label: "Max drawdown", value: `${m.maxDrawdownPct.toFixed(2)}%`, className: "text-[#f6465d]" },
+                  { label: "Sharpe", value: m.sharpe.toFixed(2) },
+                  { label: "Profit factor", value: Number.isFinite(m.profitFactor) ? m.profitFactor.toFixed(2) : "∞" },
+                  { label: "Fees", value: m.fees.toFixed(2) },
+                ].map((stat) => (
+                  <div key={stat.label}>
+                    <div className="text-[10px] text-gray-600">{stat.label}</div>
+                    <div className={`font-mono ${stat.className ?? "text-gray-200"}`}>{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="min-h-0 flex-1 overflow-y-auto">
+                <table className="w-full font-mono">
+                  <thead className="sticky top-0 bg-[#0b0e11] text-[10px] text-gray-600">
+                    <tr className="text-right">
+                      <th className="px-2 py-1 text-left font-normal">#</th>
+                      <th className="px-2 py-1 text-left font-normal">Entry</th>
+                      <th className="px-2 py-1 font-normal">Price</th>
+                      <th className="px-2 py-1 text-left font-normal">Exit</th>
+                      <th className="px-2 py-1 font-normal">Price</th>
+                      <th className="px-2 py-1 font-normal">Reason</th>
+                      <th className="px-2 py-1 font-normal">PnL</th>
+                      <th className="px-2 py-1 font-normal">%</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.trades.map((t, i) => (
+                      <tr
+                        key={i}
+                        onClick={() => getChart()?.scrollToTimestamp(t.entryTime)}
+                        title="Scroll chart to this trade"
+                        className="cursor-pointer text-right text-gray-400 hover:bg-[#1a1d23]"
+                      >
+                        <td className="px-2 py-0.5 text-left text-gray-600">{i + 1}</td>
+                        <td className="px-2 py-0.5 text-left">{new Date(t.entryTime).toLocaleString([], { hour12: false })}</td>
+                        <td className="px-2 py-0.5">{formatPrice(t.entryPrice, symbol.pricePrecision)}</td>
+                        <td className="px-2 py-0.5 text-left">{new Date(t.exitTime).toLocaleString([], { hour12: false })}</td>
+                        <td className="px-2 py-0.5">{formatPrice(t.exitPrice, symbol.pricePrecision)}</td>
+                        <td className="px-2 py-0.5">{EXIT_LABELS[t.exitReason]}</td>
+                        <td className={`px-2 py-0.5 ${pnlClass(t.pnl)}`}>{t.pnl.toFixed(2)}</td>
+                        <td className={`px-2 py-0.5 ${pnlClass(t.pnl)}`}>{t.returnPct.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.trades.length === 0 && (
+                  <div className="py-4 text-center text-gray-600">No trades over {result.bars} bars</div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { BAR_TRANSFORMS, barTransformLabel, sanitizeBarTransform, type BarTransform } from "../lib/transforms";
+
+interface BarTransformMenuProps {
+  transform: BarTransform;
+  onChange: (transform: BarTransform) => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+export default function BarTransformMenu({ transform, onChange }: BarTransformMenuProps) {
+  const [open, setOpen] = useState(false);
+  const label = barTransformLabel(transform);
+
+  // Invalid entries fall back to the defaults rather than reaching the chart
+  const update = (patch: Partial<BarTransform>) => onChange(sanitizeBarTransform({ ...transform, ...patch }));
+  const numberField = (name: string, value: number, key: keyof BarTransform, step: string, hint?: string) => (
+    <label className="block">
+      <span className="text-gray-500">{name}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => update({ [key]: e.target.value === "" ? 0 : Number(e.target.value) })}
+        className={inputClass}
+      />
+      {hint && <span className="text-[10px] text-gray-600">{hint}</span>}
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Build bars from price moves or averaged candles"
+        className={`rounded px-2 py-1 text-xs ${transform.type !== "time" ? "bg-[#2a2e37] text-yellow-400" : "text-gray-400 hover:text-gray-200"}`}
+      >
+        {label || "Bars"} ▾
+      </button>
+
+      {open && (
+        <div className="animate-fade-in absolute left-0 top-full z-50 mt-1 w-52 rounded border border-[#2a2e37] bg-[#1a1d23] py-1 text-xs shadow-xl">
+          {BAR_TRANSFORMS.map((t) => (
+            <button
+              key={t.type}
+              onClick={() => update({ type: t.type })}
+              title={t.title}
+              className={`block w-full px-3 py-1 text-left hover:bg-[#2a2e37] ${transform.type === t.type ? "text-yellow-400" : "text-gray-300"}`}
+            >
+              {t.label}
+            </button>
+          ))}
+
+          {transform.type === "renko" && (
+            <div className="mt-1 space-y-1.5 border-t border-[#2a2e37] px-3 pt-2 text-[11px]">
+              <label className="block">
+                <span className="text-gray-500">Box size</span>
+                <select
+                  value={transform.boxMode}
+                  onChange={(e) => update({ boxMode: e.target.value as BarTransform["boxMode"] })}
+                  className={inputClass}
+                >
+                  <option value="atr">ATR</option>
+                  <option value="fixed">Fixed</option>
+                </select>
+              </label>
+              {transform.boxMode === "fixed"
+                ? numberField("Box (price)", transform.boxSize, "boxSize", "any", "0 uses the ATR")
+                : numberField("ATR period", transform.atrPeriod, "atrPeriod", "1")}
+            </div>
+          )}
+
+          {transform.type === "range" && (
+            <div className="mt-1 space-y-1.5 border-t border-[#2a2e37] px-3 pt-2 text-[11px]">
+              {numberField("Range (price)", transform.rangeSize, "rangeSize", "any", "0 sizes bars from the ATR")}
+              {transform.rangeSize <= 0 && numberField("ATR period", transform.atrPeriod, "atrPeriod", "1")}
+            </div>
+          )}
+
+          {transform.type === "lineBreak" && (
+            <div className="mt-1 border-t border-[#2a2e37] px-3 pt-2 text-[11px]">
+              {numberField("Lines to reverse", transform.lineBreak, "lineBreak", "1")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
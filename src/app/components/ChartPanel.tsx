@@ -0,0 +1,606 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from "react";
+import { createPortal } from "react-dom";
+import {
+  init, dispose, type Chart, type Crosshair, type Coordinate, type KLineData, type Point,
+  ActionType, CandleType, LineType, LoadDataType, TooltipShowRule,
+} from "klinecharts";
+import { formatPrice, mergeKlines } from "../lib/utils";
+import { toDataError, describeDataError, type DataError, type DataProvider, type Unsubscribe } from "../lib/providers";
+import { loadHistory } from "../lib/candleCache";
+import { registerDrawingOverlays, drawingsKey } from "../lib/drawings";
+import { registerAlertOverlay, ALERT_GROUP, type AlertRule } from "../lib/alerts";
+import { toIndicatorCreate, type IndicatorSettingsMap } from "../lib/indicatorSettings";
+import { LINK_GROUPS, type ChartPanelState } from "../lib/panels";
+import type { CrosshairSync } from "../lib/chartSync";
+import { REPLAY_SPEEDS } from "../lib/replay";
+import { extendHistory, registerBacktestTemplates, type HistoryExtender } from "../lib/backtest";
+import { registerPaperOverlay, PAPER_GROUP, type PaperAccount, type PaperLineData } from "../lib/paperTrading";
+import { registerCompareIndicator, setPercentAxis } from "../lib/compare";
+import { barTransformLabel, syncBars, transformBars } from "../lib/transforms";
+import { registerVolumeProfile } from "../lib/volumeProfile";
+import { registerAtrIndicator } from "../lib/indicators";
+import type { BarTimezone } from "../lib/timeframes";
+import { useDrawings } from "../hooks/useDrawings";
+import { useReplay } from "../hooks/useReplay";
+import { useComparison } from "../hooks/useComparison";
+import DrawingToolbar from "./DrawingToolbar";
+
+const HISTORY_PAGE_SIZE = 500;
+
+// ========== Chart Styles ==========
+const CHART_STYLES = {
+  grid: {
+    show: true,
+    horizontal: { show: true, size: 1, color: "#1a1d23", style: LineType.Dashed },
+    vertical: { show: true, size: 1, color: "#1a1d23", style: LineType.Dashed },
+  },
+  candle: {
+    type: CandleType.CandleSolid,
+    bar: {
+      upColor: "#0ecb81",
+      downColor: "#f6465d",
+      upBorderColor: "#0ecb81",
+      downBorderColor: "#f6465d",
+      upWickColor: "#0ecb81",
+      downWickColor: "#f6465d",
+    },
+    priceMark: {
+      show: true,
+      last: { show: true, upColor: "#0ecb81", downColor: "#f6465d", line: { show: true, style: LineType.Dashed } },
+    },
+    tooltip: {
+      showRule: TooltipShowRule.FollowCross,
+      labels: ["T: ", "O: ", "H: ", "L: ", "C: ", "V: "],
+    },
+  },
+  indicator: {
+    lastValueMark: { show: true },
+  },
+  xAxis: {
+    axisLine: { color: "#2a2e37" },
+    tickLine: { color: "#2a2e37" },
+    tickText: { color: "#848e9c" },
+  },
+  yAxis: {
+    axisLine: { color: "#2a2e37" },
+    tickLine: { color: "#2a2e37" },
+    tickText: { color: "#848e9c" },
+  },
+  crosshair: {
+    show: true,
+    horizontal: { show: true, line: { color: "#848e9c44", style: LineType.Dashed } },
+    vertical: { show: true, line: { color: "#848e9c44", style: LineType.Dashed } },
+  },
+  separator: { color: "#2a2e37" },
+};
+
+interface ChartPanelProps {
+  id: string;
+  panel: ChartPanelState;
+  provider: DataProvider;
+  active: boolean;
+  showHeader: boolean;
+  alerts: AlertRule[];
+  paperAccount: PaperAccount;
+  indicatorSettingsRef: MutableRefObject<IndicatorSettingsMap>;
+  /** Turns true once saved settings are in; indicators created before then are rebuilt with them. */
+  indicatorSettingsLoaded: boolean;
+  crosshairSync: CrosshairSync;
+  /** Element the active panel renders its drawing toolbar into. */
+  toolbarHost: HTMLElement | null;
+  /** Toolbar slot for the active panel's own controls. */
+  controlsHost: HTMLElement | null;
+  onActivate: () => void;
+  onLinkGroupChange: (group: string | null) => void;
+  /** Called with the chart once created (null when disposed), and with a way to page in deeper history. */
+  onChartReady: (chart: Chart | null, extendHistory?: HistoryExtender) => void;
+  /** Called when a paper order line is dragged to a new price. */
+  onAmendOrder: (id: string, price: number) => void;
+  /** Timezone custom timeframes are bucketed in; the history reloads when it changes. */
+  barTimezone: BarTimezone;
+  /** Called when older history fails to page in; failures of the initial load show on the panel. */
+  onDataError: (error: DataError) => void;
+  /** Switches the dashboard to the demo provider, offered when history cannot be loaded. */
+  onUseDemo?: () => void;
+}
+
+/**
+ * One chart in the dashboard grid: owns its klinecharts instance, history
+ * paging, realtime feed, indicators, drawings and alert lines.
+ */
+export default function ChartPanel({
+  id, panel, provider, active, showHeader, alerts, paperAccount, indicatorSettingsRef, indicatorSettingsLoaded,
+  crosshairSync, toolbarHost, controlsHost, barTimezone, onActivate, onLinkGroupChange, onChartReady, onAmendOrder, onDataError, onUseDemo,
+}: ChartPanelProps) {
+  const {
+    symbol, timeframe, chartType, barTransform, mainIndicators, subIndicators, compareSymbols, percentAxis,
+  } = panel;
+  const { pricePrecision, quantityPrecision } = symbol;
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const chartRef = useRef<Chart | null>(null);
+  const unsubscribeRef = useRef<Unsubscribe | null>(null);
+  const historyKeyRef = useRef("");
+  // The provider's candles; the chart shows them through the panel's bar transform
+  const candlesRef = useRef<KLineData[]>([]);
+  const moreHistoryRef = useRef(false);
+  const transformRef = useRef(barTransform);
+  transformRef.current = barTransform;
+  const mainIndicatorsRef = useRef<string[]>([]);
+  const subPanesRef = useRef<string[]>([]);
+  const symbolRef = useRef(symbol.symbol);
+  symbolRef.current = symbol.symbol;
+  const onChartReadyRef = useRef(onChartReady);
+  onChartReadyRef.current = onChartReady;
+  const onAmendOrderRef = useRef(onAmendOrder);
+  onAmendOrderRef.current = onAmendOrder;
+  const onDataErrorRef = useRef(onDataError);
+  onDataErrorRef.current = onDataError;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // `cached`: older candles from the local cache are still on the chart
+  const [loadError, setLoadError] = useState<{ error: DataError; cached: boolean } | null>(null);
+
+  const drawings = useDrawings(chartRef, drawingsKey(symbol.symbol, timeframe.interval), active);
+  const { restore: restoreDrawings, detach: detachDrawings } = drawings;
+  // Replay hides the live feed; leaving it reloads history and resubscribes
+  const replay = useReplay(chartRef, () => unsubscribeRef.current?.());
+  const { stop: stopReplay, replaceBars: replaceReplayBars } = replay;
+
+  // Pages older candles in for tools that need more history than is loaded, such as the backtester.
+  // The panel's candles grow and the chart rebuilds its bars from them, so the bar transform,
+  // scroll-back paging and live updates carry on from the deeper history
+  const extendHistoryRef = useRef<HistoryExtender>(async () => []);
+  extendHistoryRef.current = async (minBars) => {
+    const chart = chartRef.current;
+    if (!chart) return [];
+    const key = historyKeyRef.current;
+    const candles = candlesRef.current;
+    if (candles.length >= minBars) return chart.getDataList();
+    const extended = await extendHistory(provider, symbol.symbol, timeframe.interval, barTimezone, candles, minBars);
+    // A newer load replaced the candles while paging
+    if (historyKeyRef.current !== key || chartRef.current !== chart) return chart.getDataList();
+    if (extended.length > candles.length) {
+      // Live updates may have added bars meanwhile
+      candlesRef.current = mergeKlines(extended, candlesRef.current);
+      const bars = transformBars(candlesRef.current, transformRef.current);
+      // Mid-replay the bars past the cursor stay hidden
+      if (!replaceReplayBars(bars)) chart.applyNewData(bars, moreHistoryRef.current);
+    }
+    return chart.getDataList();
+  };
+
+  // Initialize chart
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    registerDrawingOverlays();
+    registerAlertOverlay();
+    registerBacktestTemplates();
+    registerPaperOverlay();
+    registerCompareIndicator();
+    registerVolumeProfile();
+    registerAtrIndicator();
+    const chart = init(container, { styles: CHART_STYLES });
+    chartRef.current = chart;
+    onChartReadyRef.current(chart, (minBars) => extendHistoryRef.current(minBars));
+
+    // Grid changes resize the container without a window resize
+    const observer = new ResizeObserver(() => chart?.resize());
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      unsubscribeRef.current?.();
+      onChartReadyRef.current(null);
+      chartRef.current = null;
+      dispose(container);
+    };
+  }, []);
+
+  useComparison(
+    chartRef, provider, compareSymbols, timeframe.interval, barTimezone,
+    replay.status === "playing" || replay.status === "paused",
+  );
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (chart) setPercentAxis(chart, percentAxis);
+  }, [percentAxis]);
+
+  // Mirror the crosshair to and from panels showing the same symbol
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const onCrosshair = (data?: Crosshair) => {
+      const timestamp = data?.kLineData?.timestamp;
+      if (timestamp === undefined || data?.x === undefined || data.y === undefined) return;
+      const point = data.paneId === "candle_pane"
+        ? (chart.convertFromPixel([{ x: data.x, y: data.y }], { paneId: "candle_pane" }) as Array<Partial<Point>>)[0]
+        : undefined;
+      crosshairSync.publish(id, symbolRef.current, { timestamp, value: point?.value });
+    };
+    chart.subscribeAction(ActionType.OnCrosshairChange, onCrosshair);
+    const unsubscribe = crosshairSync.subscribe((sourceId, sourceSymbol, point) => {
+      if (sourceId === id || sourceSymbol !== symbolRef.current) return;
+      if (!point) {
+        // Null and missing paneIds default to the candle pane; klinecharts only draws the crosshair for string ids
+        chart.executeAction(ActionType.OnCrosshairChange, { paneId: false as unknown as string });
+        return;
+      }
+      const pixel = chart.convertToPixel(point, { paneId: "candle_pane" }) as Partial<Coordinate>;
+      // Without a price only the time is mirrored: an id no pane has draws just the vertical line and time label
+      const paneId = point.value === undefined ? "time_only" : "candle_pane";
+      chart.executeAction(ActionType.OnCrosshairChange, { x: pixel.x, y: pixel.y, paneId });
+    });
+    return () => {
+      chart.unsubscribeAction(ActionType.OnCrosshairChange, onCrosshair);
+      unsubscribe();
+    };
+  }, [id, crosshairSync]);
+
+  // Draw armed price alerts for this panel's symbol and provider as lines on the chart
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    chart.removeOverlay({ groupId: ALERT_GROUP });
+    alerts.forEach((alert) => {
+      if (!alert.active || alert.providerId !== provider.id || alert.symbol !== symbol.symbol) return;
+      if (alert.condition.type !== "price") return;
+      chart.createOverlay({
+        name: "alertLine",
+        groupId: ALERT_GROUP,
+        points: [{ timestamp: Date.now(), value: alert.condition.level }],
+        extendData: `🔔 ${formatPrice(alert.condition.level, symbol.pricePrecision)}`,
+      });
+    });
+  }, [alerts, provider, symbol]);
+
+  // Paper position entry and resting orders for this symbol; order lines drag to amend.
+  // Only rebuilt when they change, so unrelated account updates don't interrupt a drag
+  const paperLines = {
+    position: paperAccount.positions.find((p) => p.symbol === symbol.symbol),
+    orders: paperAccount.orders.filter((o) => o.symbol === symbol.symbol),
+  };
+  const paperKey = JSON.stringify(paperLines);
+  const paperLinesRef = useRef(paperLines);
+  paperLinesRef.current = paperLines;
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const { position: paperPosition, orders: paperOrders } = paperLinesRef.current;
+    chart.removeOverlay({ groupId: PAPER_GROUP });
+    const line = (value: number, data: PaperLineData) => chart.createOverlay({
+      name: "paperLine",
+      groupId: PAPER_GROUP,
+      lock: !data.orderId,
+      points: [{ timestamp: Date.now(), value }],
+      extendData: data,
+      onPressedMoveEnd: ({ overlay }) => {
+        const price = overlay.points[0]?.value;
+        if (data.orderId && price !== undefined) onAmendOrderRef.current(data.orderId, Number(price.toFixed(pricePrecision)));
+        return false;
+      },
+    });
+    if (paperPosition) {
+      const long = paperPosition.qty > 0;
+      line(paperPosition.entryPrice, {
+        label: `${long ? "Long" : "Short"} ${+Math.abs(paperPosition.qty).toFixed(8)} @ ${formatPrice(paperPosition.entryPrice, pricePrecision)}`,
+        color: long ? "#0ecb81" : "#f6465d",
+      });
+    }
+    paperOrders.forEach((o) => line(o.price, {
+      label: `${o.side === "buy" ? "Buy" : "Sell"} ${o.type} ${+o.qty.toFixed(8)} @ ${formatPrice(o.price, pricePrecision)}`,
+      color: o.side === "buy" ? "#0ecb81" : "#f6465d",
+      orderId: o.id,
+    }));
+  }, [paperKey, pricePrecision]);
+
+  // Load history and the realtime feed when symbol/timeframe changes
+  const loadData = useCallback(async () => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    setIsLoading(true);
+    stopReplay();
+
+    // Disconnect old realtime feed
+    unsubscribeRef.current?.();
+
+    // Fetch historical data; cached candles show first and the fetched tail then extends them
+    const key = `${provider.id}:${symbol.symbol}:${timeframe.interval}:${barTimezone}`;
+    historyKeyRef.current = key;
+    setIsLoadingMore(false);
+    setLoadError(null);
+    const current = () => historyKeyRef.current === key && chartRef.current === chart;
+
+    // Page older bars in as the user scrolls left, until the listing date is reached
+    const pageOlder: Parameters<Chart["setLoadDataCallback"]>[0] = async ({ type, data: first, callback }) => {
+      if (type !== LoadDataType.Forward || !first) {
+        callback([], false);
+        return;
+      }
+      // Transformed bars can start after the first candle, so paging goes from the candles
+      const firstCandle = candlesRef.current[0]?.timestamp ?? first.timestamp;
+      setIsLoadingMore(true);
+      let page: KLineData[];
+      try {
+        page = await provider.getHistory(symbol.symbol, timeframe.interval, {
+          endTime: firstCandle - 1,
+          limit: HISTORY_PAGE_SIZE,
+          timezone: barTimezone,
+        });
+      } catch (error) {
+        if (historyKeyRef.current !== key) return;
+        // Scrolling back to the edge tries the page again
+        setIsLoadingMore(false);
+        callback([], true);
+        onDataErrorRef.current(toDataError(error));
+        return;
+      }
+      // A newer load replaced the chart's data while this page was in flight
+      if (historyKeyRef.current !== key) return;
+      setIsLoadingMore(false);
+      const older = mergeKlines([], page).filter((d) => d.timestamp < firstCandle);
+      candlesRef.current = mergeKlines(older, candlesRef.current);
+      moreHistoryRef.current = older.length > 0;
+      // Bars built from the joined candles; the ones the chart already shows are kept
+      const bars = transformRef.current.type === "time" ? older : transformBars(candlesRef.current, transformRef.current);
+      callback(bars.filter((d) => d.timestamp < first.timestamp), moreHistoryRef.current);
+    };
+    // Until this load's candles are on the chart, scrolling back pages nothing in
+    chart.setLoadDataCallback(({ callback }) => callback([], false));
+
+    let showingCached = false;
+    let data: KLineData[];
+    try {
+      data = await loadHistory(provider, symbol.symbol, timeframe.interval, barTimezone, HISTORY_PAGE_SIZE, (cached) => {
+        if (!current()) return;
+        showingCached = true;
+        candlesRef.current = cached;
+        moreHistoryRef.current = true;
+        chart.applyNewData(transformBars(cached, transformRef.current), true);
+        chart.setLoadDataCallback(pageOlder);
+        restoreDrawings();
+        setIsLoading(false);
+      }, current);
+    } catch (error) {
+      if (!current()) return;
+      // Cached candles and their drawings stay up under the error; without them the
+      // chart is left empty, and the previous series' drawings go with its candles
+      if (!showingCached) {
+        candlesRef.current = [];
+        chart.clearData();
+        detachDrawings();
+      }
+      setLoadError({ error: toDataError(error), cached: showingCached });
+      setIsLoading(false);
+      return;
+    }
+    if (!current()) return;
+    candlesRef.current = data;
+    // Resampled timeframes can return short pages with more history behind them,
+    // so paging stops only once a page comes back empty
+    moreHistoryRef.current = data.length > 0;
+    if (showingCached) {
+      syncBars(chart, transformBars(data, transformRef.current), moreHistoryRef.current);
+    } else {
+      chart.applyNewData(transformBars(data, transformRef.current), moreHistoryRef.current);
+      chart.setLoadDataCallback(pageOlder);
+      restoreDrawings();
+    }
+
+    // Subscribe for real-time updates
+    unsubscribeRef.current = provider.subscribeKline(symbol.symbol, timeframe.interval, (klineData) => {
+      const candles = candlesRef.current;
+      const last = candles[candles.length - 1];
+      if (!last || klineData.timestamp > last.timestamp) candles.push(klineData);
+      else if (klineData.timestamp === last.timestamp) candles[candles.length - 1] = klineData;
+      else return;
+      if (transformRef.current.type === "time") chart.updateData(klineData);
+      else syncBars(chart, transformBars(candles, transformRef.current), moreHistoryRef.current);
+    }, barTimezone);
+
+    setIsLoading(false);
+  }, [provider, symbol.symbol, timeframe.interval, barTimezone, restoreDrawings, detachDrawings, stopReplay]);
+
+  useEffect(() => { loadData(); }, [loadData]);
+
+  // A new bar transform rebuilds the bars from the loaded candles without refetching;
+  // mid-replay it goes back to live, as the replayed bars would no longer match
+  const transformKey = JSON.stringify(barTransform);
+  const appliedTransformRef = useRef(transformKey);
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || appliedTransformRef.current === transformKey) return;
+    appliedTransformRef.current = transformKey;
+    if (replay.status !== "off") {
+      loadData();
+      return;
+    }
+    chart.applyNewData(transformBars(candlesRef.current, transformRef.current), moreHistoryRef.current);
+  }, [transformKey, replay.status, loadData]);
+
+  // Chart type, precision and indicators apply to the loaded bars without refetching,
+  // so they can change mid-replay
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    chart.setStyles({ candle: { type: chartType } });
+    chart.setPriceVolumePrecision(pricePrecision, quantityPrecision);
+
+    // Only the toolbar's own indicators are replaced; comparison lines share the candle pane
+    mainIndicatorsRef.current.forEach((ind) => chart.removeIndicator("candle_pane", ind));
+    mainIndicators.forEach((ind) => {
+      chart.createIndicator(toIndicatorCreate(ind, indicatorSettingsRef.current[ind]), true, { id: "candle_pane" });
+    });
+    mainIndicatorsRef.current = mainIndicators;
+
+    // Remove all sub panes first, then add selected; each sub pane is keyed by its indicator name
+    subPanesRef.current.forEach((ind) => {
+      try { chart.removeIndicator(ind); } catch { /* ignore */ }
+    });
+    subIndicators.forEach((ind) => {
+      chart.createIndicator(toIndicatorCreate(ind, indicatorSettingsRef.current[ind]), false, { id: ind });
+    });
+    subPanesRef.current = subIndicators;
+  }, [
+    chartType, pricePrecision, quantityPrecision, mainIndicators, subIndicators,
+    indicatorSettingsRef, indicatorSettingsLoaded,
+  ]);
+
+  const linkColor = panel.linkGroup ? LINK_GROUPS[panel.linkGroup] : undefined;
+
+  return (
+    <div
+      onMouseDownCapture={onActivate}
+      onMouseLeave={() => crosshairSync.publish(id, symbol.symbol, null)}
+      className={`flex min-h-0 min-w-0 flex-col ${showHeader ? `border ${active ? "border-yellow-400/40" : "border-[#2a2e37]"}` : ""}`}
+    >
+      {showHeader && (
+        <div className="flex items-center gap-2 border-b border-[#2a2e37] px-2 py-0.5 text-[11px]">
+          <span className={active ? "font-semibold text-yellow-400" : "text-gray-300"}>{symbol.pair}</span>
+          <span className="text-gray-500">{timeframe.label}</span>
+          {barTransform.type !== "time" && <span className="text-gray-500">{barTransformLabel(barTransform)}</span>}
+          <select
+            value={panel.linkGroup ?? ""}
+            onChange={(e) => onLinkGroupChange(e.target.value || null)}
+            title="Link group: linked panels follow each other's symbol"
+            style={{ color: linkColor }}
+            className="ml-auto bg-transparent text-gray-500 outline-none"
+          >
+            <option value="">Unlinked</option>
+            {Object.keys(LINK_GROUPS).map((g) => (
+              <option key={g} value={g}>Link {g}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {active && toolbarHost && createPortal(
+        <DrawingToolbar
+          activeTool={drawings.activeTool}
+          hasSelection={drawings.selectedId !== null}
+          selectionLocked={drawings.selectedLocked}
+          onSelectTool={drawings.startDrawing}
+          onCancel={drawings.cancelDrawing}
+          onToggleLock={drawings.toggleLockSelected}
+          onDelete={drawings.deleteSelected}
+          onClearAll={drawings.clearAll}
+        />,
+        toolbarHost,
+      )}
+
+      {active && controlsHost && createPortal(
+        <button
+          onClick={replay.status === "off" ? replay.startPicking : replay.status === "picking" ? replay.stop : loadData}
+          title={replay.status === "off" ? "Replay history bar by bar" : "Leave replay and go back to live"}
+          className={`rounded px-2 py-1 text-xs ${
+            replay.status === "off" ? "text-gray-400 hover:text-gray-200" : "bg-[#2a2e37] text-yellow-400"
+          }`}
+        >
+          ⏪ Replay
+        </button>,
+        controlsHost,
+      )}
+
+      {/* Chart Container */}
+      <div
+        className={`relative min-h-0 flex-1 ${replay.status === "picking" ? "cursor-crosshair" : ""}`}
+        onClick={replay.status === "picking" ? replay.pickStart : undefined}
+      >
+        {isLoading && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#0b0e11]/80">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-yellow-400 border-t-transparent" />
+          </div>
+        )}
+        {isLoadingMore && (
+          <div className="pointer-events-none absolute inset-y-0 left-0 z-10 flex w-10 items-center justify-center bg-gradient-to-r from-[#0b0e11] to-transparent">
+            <div className="h-4 w-4 animate-spin rounded-full border-2 border-yellow-400 border-t-transparent" />
+          </div>
+        )}
+        <div ref={containerRef} className="h-full w-full" />
+
+        {provider.demo && (
+          <span
+            title="Prices are generated locally and do not reflect any market"
+            className="pointer-events-none absolute bottom-8 left-2 z-10 rounded bg-yellow-400/15 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-yellow-400"
+          >
+            Demo data
+          </span>
+        )}
+
+        {/* History Error: a card on the empty chart, or a strip above cached candles */}
+        {loadError && (
+          <div
+            className={`absolute z-10 flex text-xs ${loadError.cached
+              ? "inset-x-0 top-1 justify-center"
+              : "inset-0 items-center justify-center bg-[#0b0e11]/80"}`}
+          >
+            <div className={`flex items-center gap-3 rounded border border-[#f6465d]/40 bg-[#1a1d23]/95 px-3 py-1.5 shadow-lg ${loadError.cached ? "" : "flex-col py-3"}`}>
+              <span className="text-[#f6465d]">{describeDataError(loadError.error)}</span>
+              {loadError.cached && <span className="text-gray-500">Showing cached candles</span>}
+              <div className="flex gap-3">
+                {loadError.error.kind !== "invalid_symbol" && (
+                  <button onClick={loadData} className="text-yellow-400 hover:text-yellow-300">Retry</button>
+                )}
+                {onUseDemo && !provider.demo && (
+                  <button onClick={onUseDemo} className="text-gray-400 hover:text-gray-200">Use demo data</button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Replay Controls */}
+        {replay.status !== "off" && (
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="absolute bottom-8 left-1/2 z-10 flex -translate-x-1/2 items-center gap-2 rounded border border-[#2a2e37] bg-[#1a1d23]/95 px-3 py-1.5 text-xs text-gray-300 shadow-lg"
+          >
+            {replay.status === "picking" ? (
+              <>
+                <span className="text-gray-400">Click the bar to start replay from</span>
+                <button onClick={replay.stop} className="text-gray-500 hover:text-gray-200">Cancel</button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={replay.status === "playing" ? replay.pause : replay.play}
+                  title={replay.status === "playing" ? "Pause" : "Play"}
+                  className="w-5 text-yellow-400 hover:text-yellow-300"
+                >
+                  {replay.status === "playing" ? "❚❚" : "▶"}
+                </button>
+                <button
+                  onClick={replay.step}
+                  disabled={replay.status === "playing"}
+                  title="Next bar"
+                  className="text-gray-400 hover:text-gray-200 disabled:opacity-40"
+                >
+                  ⏭
+                </button>
+                <select
+                  value={replay.speedIndex}
+                  onChange={(e) => replay.setSpeedIndex(Number(e.target.value))}
+                  title="Replay speed"
+                  className="bg-transparent text-gray-400 outline-none"
+                >
+                  {REPLAY_SPEEDS.map((speed, i) => (
+                    <option key={speed.label} value={i}>{speed.label}</option>
+                  ))}
+                </select>
+                <span className="font-mono text-[11px] text-gray-500">
+                  {replay.position.bar && new Date(replay.position.bar.timestamp).toLocaleString([], { hour12: false })}
+                  {" · "}{replay.position.total - replay.position.index - 1} left
+                </span>
+                <button onClick={loadData} title="Back to live" className="text-gray-500 hover:text-[#f6465d]">✕</button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
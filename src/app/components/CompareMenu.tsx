@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { COMPARE_COLORS, MAX_COMPARE } from "../lib/compare";
+import { searchSymbols } from "../lib/symbols";
+import type { SymbolInfo } from "../lib/utils";
+
+interface CompareMenuProps {
+  symbols: SymbolInfo[];
+  /** The chart's own symbol, which cannot be compared against itself. */
+  current: string;
+  compare: string[];
+  percentAxis: boolean;
+  onChange: (compare: string[]) => void;
+  onTogglePercent: () => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+const MAX_RESULTS = 8;
+
+export default function CompareMenu({
+  symbols, current, compare, percentAxis, onChange, onTogglePercent,
+}: CompareMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const results = query.trim()
+    ? searchSymbols(symbols, query, null, [])
+        .filter((s) => s.symbol !== current && !compare.includes(s.symbol))
+        .slice(0, MAX_RESULTS)
+    : [];
+
+  const add = (symbol: string) => {
+    onChange([...compare, symbol]);
+    setQuery("");
+  };
+
+  return (
+    <div className="relative flex items-center gap-0.5">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Overlay other symbols as percent change"
+        className={`rounded px-2 py-1 text-xs ${compare.length > 0 ? "bg-[#2a2e37] text-yellow-400" : "text-gray-400 hover:text-gray-200"}`}
+      >
+        Compare{compare.length > 0 && ` (${compare.length})`}
+      </button>
+      <button
+        onClick={onTogglePercent}
+        title="Percentage price axis"
+        className={`rounded px-1.5 py-1 text-xs ${percentAxis ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+      >
+        %
+      </button>
+
+      {open && (
+        <div className="animate-fade-in absolute left-0 top-full z-50 mt-1 w-56 rounded border border-[#2a2e37] bg-[#1a1d23] py-1 text-xs shadow-xl">
+          {compare.length === 0 && <p className="px-3 py-1.5 text-gray-600">No comparison symbols</p>}
+          {compare.map((symbol, i) => (
+            <div key={symbol} className="flex items-center gap-2 px-3 py-1 hover:bg-[#2a2e37]">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: COMPARE_COLORS[i % COMPARE_COLORS.length] }} />
+              <span className="flex-1 text-gray-300">{symbol}</span>
+              <button
+                onClick={() => onChange(compare.filter((s) => s !== symbol))}
+                title="Remove"
+                className="text-gray-500 hover:text-[#f6465d]"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          {compare.length < MAX_COMPARE && (
+            <div className="mt-1 border-t border-[#2a2e37] px-3 pt-2">
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && results[0]) add(results[0].symbol);
+                  if (e.key === "Escape") setOpen(false);
+                }}
+                placeholder="Add symbol"
+                className={inputClass}
+              />
+              {results.map((s) => (
+                <button
+                  key={s.symbol}
+                  onClick={() => add(s.symbol)}
+                  className="block w-full px-1 py-0.5 text-left text-gray-400 hover:text-gray-200"
+                >
+                  {s.pair} <span className="text-gray-600">{s.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { compileFormula, FormulaError, FORMULA_FUNCTIONS, FORMULA_SERIES } from "../lib/formula";
+import type { CustomIndicator, IndicatorPlacement } from "../lib/customIndicators";
+
+interface CustomIndicatorDialogProps {
+  indicator?: CustomIndicator;
+  onSave: (indicator: Omit<CustomIndicator, "id"> & { id?: string }) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const EXAMPLE_FORMULA = "MID := (HIGH + LOW) / 2\nFAST: EMA(MID, 12)\nSLOW: SMA(MID, 26)";
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-2 py-1 text-xs text-gray-200 outline-none focus:border-yellow-400/60";
+
+export default function CustomIndicatorDialog({
+  indicator, onSave, onDelete, onClose,
+}: CustomIndicatorDialogProps) {
+  const [name, setName] = useState(indicator?.name ?? "");
+  const [formula, setFormula] = useState(indicator?.formula ?? EXAMPLE_FORMULA);
+  const [placement, setPlacement] = useState<IndicatorPlacement>(indicator?.placement ?? "main");
+
+  // Compile as the user types so errors point at the offending line and column
+  const result = useMemo(() => {
+    try {
+      return { outputs: compileFormula(formula).outputs, error: null };
+    } catch (e) {
+      if (e instanceof FormulaError) return { outputs: [], error: `Line ${e.line}, col ${e.column}: ${e.message}` };
+      throw e;
+    }
+  }, [formula]);
+
+  const canSave = name.trim() !== "" && !result.error;
+
+  const save = () => {
+    if (!canSave) return;
+    onSave({ id: indicator?.id, name: name.trim(), formula, placement });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="animate-fade-in w-[28rem] rounded border border-[#2a2e37] bg-[#1a1d23] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-[#2a2e37] px-4 py-2">
+          <h3 className="text-sm font-semibold text-gray-200">
+            {indicator ? `Edit ${indicator.name}` : "New Custom Indicator"}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+
+        <div className="space-y-3 px-4 py-3 text-xs text-gray-400">
+          <label className="block space-y-1">
+            <span>Name</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="My Indicator" className={inputClass} />
+          </label>
+
+          <label className="block space-y-1">
+            <span>Formula</span>
+            <textarea
+              value={formula}
+              onChange={(e) => setFormula(e.target.value)}
+              rows={6}
+              spellCheck={false}
+              className={`${inputClass} resize-y font-mono`}
+            />
+          </label>
+
+          {result.error ? (
+            <p className="text-[11px] text-[#f6465d]">{result.error}</p>
+          ) : (
+            <p className="text-[11px] text-gray-500">Plots: {result.outputs.join(", ")}</p>
+          )}
+
+          <div className="flex gap-4">
+            {(["main", "sub"] as IndicatorPlacement[]).map((p) => (
+              <label key={p} className="flex items-center gap-1.5">
+                <input type="radio" checked={placement === p} onChange={() => setPlacement(p)} />
+                {p === "main" ? "Overlay on price" : "Separate pane"}
+              </label>
+            ))}
+          </div>
+
+          <details className="text-[11px] text-gray-500">
+            <summary className="cursor-pointer hover:text-gray-300">Syntax</summary>
+            <div className="mt-1 space-y-1">
+              <p><code>NAME: expr</code> plots a line, <code>name := expr</code> defines a hidden variable.</p>
+              <p>Series: {FORMULA_SERIES.join(", ")}</p>
+              <p>Functions: {FORMULA_FUNCTIONS.join(", ")}</p>
+              <p>Operators: + - * / &gt; &lt; &gt;= &lt;= == != AND OR NOT</p>
+            </div>
+          </details>
+        </div>
+
+        <div className="flex justify-between border-t border-[#2a2e37] px-4 py-2">
+          {onDelete ? (
+            <button onClick={onDelete} className="rounded px-3 py-1 text-xs text-[#f6465d] hover:bg-[#2a2e37]">
+              Delete
+            </button>
+          ) : <span />}
+          <button
+            onClick={save}
+            disabled={!canSave}
+            className="rounded bg-yellow-400/20 px-3 py-1 text-xs text-yellow-400 hover:bg-yellow-400/30 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
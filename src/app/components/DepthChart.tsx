@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, type MouseEvent } from "react";
+import { formatPrice, formatQuantity, type OrderBookData, type SymbolInfo } from "../lib/utils";
+
+interface DepthChartProps {
+  book: OrderBookData;
+  symbol: SymbolInfo;
+  mid: number | null;
+}
+
+interface Hover {
+  x: number;
+  price: number;
+  total: number;
+  side: "bid" | "ask";
+}
+
+/**
+ * Cumulative depth curves drawn in a 100×100 viewBox that stretches to the
+ * container, so no resize handling is needed. Bids step down to the left of
+ * the mid price, asks step up to the right.
+ */
+export default function DepthChart({ book, symbol, mid }: DepthChartProps) {
+  const [hover, setHover] = useState<Hover | null>(null);
+  const { bids, asks } = book;
+
+  if (bids.length === 0 || asks.length === 0 || mid === null) {
+    return <div className="flex flex-1 items-center justify-center text-[11px] text-gray-600">Waiting for depth…</div>;
+  }
+
+  // Symmetric price window around mid so both sides are comparable
+  const halfRange = Math.max(mid - parseFloat(bids[bids.length - 1].price), parseFloat(asks[asks.length - 1].price) - mid) || mid * 0.001;
+  const minPrice = mid - halfRange;
+  const maxPrice = mid + halfRange;
+  const maxTotal = Math.max(bids[bids.length - 1].total, asks[asks.length - 1].total) || 1;
+  const x = (price: number) => ((price - minPrice) / (maxPrice - minPrice)) * 100;
+  const y = (total: number) => 100 - (total / maxTotal) * 95;
+
+  const bidPath = bids.reduce((path, level) => {
+    const px = x(parseFloat(level.price));
+    return `${path} H${px.toFixed(2)} V${y(level.total).toFixed(2)}`;
+  }, `M${x(mid).toFixed(2)},100`) + ` H0 V100 Z`;
+  const askPath = asks.reduce((path, level) => {
+    const px = x(parseFloat(level.price));
+    return `${path} H${px.toFixed(2)} V${y(level.total).toFixed(2)}`;
+  }, `M${x(mid).toFixed(2)},100`) + ` H100 V100 Z`;
+
+  const onMove = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fx = (e.clientX - rect.left) / rect.width;
+    const price = minPrice + fx * (maxPrice - minPrice);
+    // Cumulative size available between mid and the hovered price
+    const side = price < mid ? "bid" : "ask";
+    const levels = side === "bid" ? bids : asks;
+    let total = 0;
+    for (const level of levels) {
+      const p = parseFloat(level.price);
+      if (side === "bid" ? p < price : p > price) break;
+      total = level.total;
+    }
+    setHover({ x: fx * 100, price, total, side });
+  };
+
+  return (
+    <div className="relative min-h-0 flex-1 px-3 py-2">
+      <svg
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className="h-full w-full"
+        onMouseMove={onMove}
+        onMouseLeave={() => setHover(null)}
+      >
+        <path d={bidPath} fill="#0ecb81" fillOpacity={0.15} stroke="#0ecb81" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        <path d={askPath} fill="#f6465d" fillOpacity={0.15} stroke="#f6465d" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        <line x1={50} x2={50} y1={0} y2={100} stroke="#848e9c44" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+        {hover && (
+          <line x1={hover.x} x2={hover.x} y1={0} y2={100} stroke="#848e9c" vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+
+      <div className="pointer-events-none absolute bottom-2 left-3 text-[10px] text-gray-600">{formatPrice(minPrice, symbol.pricePrecision)}</div>
+      <div className="pointer-events-none absolute bottom-2 right-3 text-[10px] text-gray-600">{formatPrice(maxPrice, symbol.pricePrecision)}</div>
+
+      {hover && (
+        <div className="pointer-events-none absolute left-3 top-2 rounded border border-[#2a2e37] bg-[#1a1d23]/90 px-2 py-1 font-mono text-[10px] text-gray-300">
+          <div>Price <span className={hover.side === "bid" ? "text-[#0ecb81]" : "text-[#f6465d]"}>{formatPrice(hover.price, symbol.pricePrecision)}</span></div>
+          <div>Total {formatQuantity(hover.total, symbol.quantityPrecision)} {symbol.baseAsset}</div>
+          <div>From mid {(((hover.price - mid) / mid) * 100).toFixed(3)}%</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { DRAWING_TOOLS } from "../lib/drawings";
+
+interface DrawingToolbarProps {
+  activeTool: string | null;
+  hasSelection: boolean;
+  selectionLocked: boolean;
+  onSelectTool: (tool: string) => void;
+  onCancel: () => void;
+  onToggleLock: () => void;
+  onDelete: () => void;
+  onClearAll: () => void;
+}
+
+const buttonClass = "flex h-7 w-7 items-center justify-center rounded text-xs transition-colors";
+
+export default function DrawingToolbar({
+  activeTool, hasSelection, selectionLocked,
+  onSelectTool, onCancel, onToggleLock, onDelete, onClearAll,
+}: DrawingToolbarProps) {
+  return (
+    <div className="flex w-9 flex-col items-center gap-0.5 border-r border-[#2a2e37] py-1">
+      {DRAWING_TOOLS.map((tool) => (
+        <button
+          key={tool.overlay}
+          title={tool.label}
+          onClick={() => (activeTool === tool.overlay ? onCancel() : onSelectTool(tool.overlay))}
+          className={`${buttonClass} ${
+            activeTool === tool.overlay
+              ? "bg-[#2a2e37] text-yellow-400"
+              : "text-gray-400 hover:bg-[#1a1d23] hover:text-gray-200"
+          }`}
+        >
+          {tool.icon}
+        </button>
+      ))}
+
+      <div className="my-1 h-px w-5 bg-[#2a2e37]" />
+
+      <button
+        title={selectionLocked ? "Unlock drawing" : "Lock drawing"}
+        disabled={!hasSelection}
+        onClick={onToggleLock}
+        className={`${buttonClass} ${
+          hasSelection && selectionLocked ? "text-yellow-400" : "text-gray-400"
+        } hover:bg-[#1a1d23] disabled:cursor-default disabled:opacity-30 disabled:hover:bg-transparent`}
+      >
+        {selectionLocked ? "🔒" : "🔓"}
+      </button>
+      <button
+        title="Delete drawing"
+        disabled={!hasSelection}
+        onClick={onDelete}
+        className={`${buttonClass} text-gray-400 hover:bg-[#1a1d23] hover:text-[#f6465d] disabled:cursor-default disabled:opacity-30 disabled:hover:bg-transparent`}
+      >
+        ✕
+      </button>
+      <button
+        title="Remove all drawings"
+        onClick={() => { if (window.confirm("Remove all drawings on this chart?")) onClearAll(); }}
+        className={`${buttonClass} text-gray-500 hover:bg-[#1a1d23] hover:text-[#f6465d]`}
+      >
+        ⌫
+      </button>
+    </div>
+  );
+}
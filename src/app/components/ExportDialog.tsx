@@ -0,0 +1,179 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Chart } from "klinecharts";
+import {
+  EXPORT_TIMEZONES, collectExportData, downloadBlob, exportFileName, renderChartImage, toCSV, toJSON,
+  type ExportFormat, type ExportRange,
+} from "../lib/export";
+import type { SymbolInfo, Timeframe } from "../lib/utils";
+
+interface ExportDialogProps {
+  chart: Chart;
+  symbol: SymbolInfo;
+  timeframe: Timeframe;
+  providerName: string;
+  onClose: () => void;
+}
+
+type Tab = "data" | "image";
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-2 py-1 text-xs text-gray-200 outline-none focus:border-yellow-400/60";
+
+const RANGE_LABELS: Record<ExportRange, string> = {
+  all: "All loaded candles",
+  visible: "Visible on chart",
+  dates: "Date range",
+};
+
+/** Downloads the active chart's candles and indicator values, or a PNG snapshot of it. */
+export default function ExportDialog({
+  chart, symbol, timeframe, providerName, onClose,
+}: ExportDialogProps) {
+  const [tab, setTab] = useState<Tab>("data");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [range, setRange] = useState<ExportRange>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [timeZone, setTimeZone] = useState("local");
+  const [includeIndicators, setIncludeIndicators] = useState(true);
+  const [includeDrawings, setIncludeDrawings] = useState(true);
+  const [useWatermark, setUseWatermark] = useState(false);
+  const [watermark, setWatermark] = useState(symbol.pair);
+  const [error, setError] = useState<string | null>(null);
+
+  const table = useMemo(
+    () => (tab === "data" ? collectExportData(chart, { range, fromDate, toDate, timeZone, includeIndicators }) : null),
+    [tab, chart, range, fromDate, toDate, timeZone, includeIndicators],
+  );
+
+  const exportData = () => {
+    if (!table || table.rows.length === 0) return;
+    const blob = format === "csv"
+      ? new Blob([toCSV(table)], { type: "text/csv" })
+      : new Blob([toJSON(table)], { type: "application/json" });
+    downloadBlob(blob, exportFileName(symbol.symbol, timeframe.interval, format));
+    onClose();
+  };
+
+  const exportImage = async () => {
+    try {
+      const blob = await renderChartImage(chart, {
+        title: symbol.pair,
+        subtitle: `${timeframe.label} · ${providerName} · ${new Date().toLocaleString([], { hour12: false })}`,
+        watermark: useWatermark ? watermark.trim() : undefined,
+        includeDrawings,
+      });
+      downloadBlob(blob, exportFileName(symbol.symbol, timeframe.interval, "png"));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="animate-fade-in w-[26rem] rounded border border-[#2a2e37] bg-[#1a1d23] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-[#2a2e37] px-4 py-2">
+          <h3 className="text-sm font-semibold text-gray-200">Export {symbol.pair} · {timeframe.label}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+
+        <div className="flex gap-1 border-b border-[#2a2e37] px-4 py-1.5">
+          {([["data", "Data"], ["image", "Image"]] as const).map(([t, label]) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`rounded px-2 py-0.5 text-xs ${tab === t ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "data" ? (
+          <div className="space-y-3 px-4 py-3 text-xs text-gray-400">
+            <div className="flex gap-4">
+              {(["csv", "json"] as const).map((f) => (
+                <label key={f} className="flex items-center gap-1.5">
+                  <input type="radio" checked={format === f} onChange={() => setFormat(f)} />
+                  {f.toUpperCase()}
+                </label>
+              ))}
+            </div>
+
+            <label className="block space-y-1">
+              <span>Range</span>
+              <select value={range} onChange={(e) => setRange(e.target.value as ExportRange)} className={inputClass}>
+                {(Object.keys(RANGE_LABELS) as ExportRange[]).map((r) => (
+                  <option key={r} value={r}>{RANGE_LABELS[r]}</option>
+                ))}
+              </select>
+            </label>
+
+            {range === "dates" && (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span>From</span>
+                  <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+                </label>
+                <label className="block space-y-1">
+                  <span>To</span>
+                  <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+            )}
+
+            <label className="block space-y-1">
+              <span>Time zone</span>
+              <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)} className={inputClass}>
+                {EXPORT_TIMEZONES.map((z) => (
+                  <option key={z} value={z}>{z === "local" ? "Local time" : z}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={includeIndicators} onChange={(e) => setIncludeIndicators(e.target.checked)} />
+              Include indicator values
+            </label>
+
+            <p className="text-[11px] text-gray-500">
+              {table && table.rows.length > 0
+                ? `${table.rows.length} rows × ${table.columns.length} columns`
+                : "No candles in this range"}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3 px-4 py-3 text-xs text-gray-400">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={includeDrawings} onChange={(e) => setIncludeDrawings(e.target.checked)} />
+              Include drawings and overlays
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={useWatermark} onChange={(e) => setUseWatermark(e.target.checked)} />
+              Watermark
+            </label>
+            {useWatermark && (
+              <input value={watermark} onChange={(e) => setWatermark(e.target.value)} className={inputClass} />
+            )}
+            {error && <p className="text-[11px] text-[#f6465d]">{error}</p>}
+          </div>
+        )}
+
+        <div className="flex justify-end border-t border-[#2a2e37] px-4 py-2">
+          <button
+            onClick={tab === "data" ? exportData : exportImage}
+            disabled={tab === "data" && (!table || table.rows.length === 0)}
+            className="rounded bg-yellow-400/20 px-3 py-1 text-xs text-yellow-400 hover:bg-yellow-400/30 disabled:opacity-40"
+          >
+            Download {tab === "data" ? format.toUpperCase() : "PNG"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  ImportError, TIMESTAMP_FORMATS, buildKlines, createDataset, detectInterval, guessMapping, parseImportFile,
+  type ColumnMapping, type ImportedDataset, type RawTable, type TimestampFormat,
+} from "../lib/importData";
+import { TIMEFRAMES } from "../lib/utils";
+
+interface ImportDialogProps {
+  /** A file dropped on the chart; otherwise the dialog starts with a file picker. */
+  initialFile: File | null;
+  datasets: ImportedDataset[];
+  onImport: (dataset: ImportedDataset) => void;
+  onRemove: (symbol: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-2 py-1 text-xs text-gray-200 outline-none focus:border-yellow-400/60";
+
+const FIELDS: Array<[keyof ColumnMapping, string]> = [
+  ["time", "Time"], ["open", "Open"], ["high", "High"], ["low", "Low"], ["close", "Close"], ["volume", "Volume"],
+];
+
+/**
+ * Reads a CSV/JSON OHLCV file, lets the user map its columns and timestamp
+ * format with a live validation summary, and saves it as an offline symbol.
+ */
+export default function ImportDialog({
+  initialFile, datasets, onImport, onRemove, onClose,
+}: ImportDialogProps) {
+  const [file, setFile] = useState<File | null>(initialFile);
+  const [table, setTable] = useState<RawTable | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>("auto");
+  const [assumeUtc, setAssumeUtc] = useState(true);
+  const [name, setName] = useState("");
+  const [intervalChoice, setIntervalChoice] = useState("");
+  const [dragging, setDragging] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setTable(null);
+    setReadError(null);
+    file.text().then((text) => {
+      if (cancelled) return;
+      try {
+        const parsed = parseImportFile(file.name, text);
+        setTable(parsed);
+        setMapping(guessMapping(parsed.columns));
+        setName(file.name.replace(/\.[^.]+$/, ""));
+        setIntervalChoice("");
+      } catch (e) {
+        if (!(e instanceof ImportError)) throw e;
+        setReadError(e.message);
+      }
+    }, () => {
+      if (!cancelled) setReadError("Could not read the file");
+    });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const result = useMemo(
+    () => (table && mapping ? buildKlines(table, { mapping, timestampFormat, assumeUtc }) : null),
+    [table, mapping, timestampFormat, assumeUtc],
+  );
+  const detected = useMemo(() => (result ? detectInterval(result.bars) : null), [result]);
+  const chosenInterval = intervalChoice || detected || "";
+  const intervals = Array.from(new Set([...(detected ? [detected] : []), ...TIMEFRAMES.map((tf) => tf.interval)]));
+
+  const canImport = !!file && !!result && result.bars.length > 0 && name.trim() !== "" && chosenInterval !== "";
+
+  const submit = () => {
+    if (!canImport) return;
+    onImport(createDataset(name.trim(), file.name, chosenInterval, result.bars, datasets.map((d) => d.symbol)));
+  };
+
+  const pickFile = (files: FileList | null) => {
+    if (files?.[0]) setFile(files[0]);
+  };
+
+  const first = result?.bars[0];
+  const last = result?.bars[result.bars.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="animate-fade-in w-[30rem] rounded border border-[#2a2e37] bg-[#1a1d23] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-[#2a2e37] px-4 py-2">
+          <h3 className="text-sm font-semibold text-gray-200">Import OHLCV File</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+
+        <div className="max-h-[70vh] space-y-3 overflow-y-auto px-4 py-3 text-xs text-gray-400">
+          <label
+            onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={(e) => { e.preventDefault(); setDragging(false); pickFile(e.dataTransfer.files); }}
+            className={`block cursor-pointer rounded border border-dashed px-3 py-4 text-center ${
+              dragging ? "border-yellow-400 text-yellow-400" : "border-[#2a2e37] hover:border-[#3a3e47]"
+            }`}
+          >
+            {file ? file.name : "Drop a CSV or JSON file here, or click to choose"}
+            <input type="file" accept=".csv,.json,.txt,text/csv,application/json" onChange={(e) => pickFile(e.target.files)} className="hidden" />
+          </label>
+
+          {readError && <p className="text-[11px] text-[#f6465d]">{readError}</p>}
+
+          {table && mapping && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                {FIELDS.map(([field, label]) => (
+                  <label key={field} className="block space-y-1">
+                    <span>{label}</span>
+                    <select
+                      value={mapping[field] ?? ""}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === "" ? null : Number(e.target.value) })}
+                      className={inputClass}
+                    >
+                      {field === "volume" && <option value="">None</option>}
+                      {table.columns.map((c, i) => <option key={i} value={i}>{c}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span>Timestamps</span>
+                  <select value={timestampFormat} onChange={(e) => setTimestampFormat(e.target.value as TimestampFormat)} className={inputClass}>
+                    {(Object.keys(TIMESTAMP_FORMATS) as TimestampFormat[]).map((f) => (
+                      <option key={f} value={f}>{TIMESTAMP_FORMATS[f]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span>Interval</span>
+                  <select value={chosenInterval} onChange={(e) => setIntervalChoice(e.target.value)} className={inputClass}>
+                    {!chosenInterval && <option value="">Choose…</option>}
+                    {intervals.map((i) => (
+                      <option key={i} value={i}>{i}{i === detected ? " (detected)" : ""}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="flex items-center gap-1.5">
+                <input type="checkbox" checked={assumeUtc} onChange={(e) => setAssumeUtc(e.target.checked)} />
+                Dates without a time zone are UTC
+              </label>
+
+              {result && (
+                <div className="space-y-0.5 rounded bg-[#0b0e11] px-2 py-1.5 text-[11px]">
+                  <p className={result.bars.length > 0 ? "text-gray-300" : "text-[#f6465d]"}>
+                    {result.bars.length} candles
+                    {first && last && ` · ${new Date(first.timestamp).toLocaleString([], { hour12: false })} → ${new Date(last.timestamp).toLocaleString([], { hour12: false })}`}
+                  </p>
+                  {result.duplicates > 0 && <p className="text-yellow-400">{result.duplicates} duplicate timestamps merged</p>}
+                  {result.rejected > 0 && <p className="text-[#f6465d]">{result.rejected} rows skipped</p>}
+                  {result.errors.map((e) => <p key={e} className="text-gray-500">{e}</p>)}
+                </div>
+              )}
+
+              <label className="block space-y-1">
+                <span>Symbol name</span>
+                <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+              </label>
+            </>
+          )}
+
+          {datasets.length > 0 && (
+            <div className="space-y-1 border-t border-[#2a2e37] pt-2">
+              <span className="text-gray-500">Imported symbols</span>
+              {datasets.map((d) => (
+                <div key={d.symbol} className="flex items-center gap-2 text-gray-400">
+                  <span className="text-gray-200">{d.name}</span>
+                  <span className="text-gray-600">{d.interval} · {d.bars.length} candles</span>
+                  <button onClick={() => onRemove(d.symbol)} title="Delete" className="ml-auto text-gray-500 hover:text-[#f6465d]">✕</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end border-t border-[#2a2e37] px-4 py-2">
+          <button
+            onClick={submit}
+            disabled={!canImport}
+            className="rounded bg-yellow-400/20 px-3 py-1 text-xs text-yellow-400 hover:bg-yellow-400/30 disabled:opacity-40"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DEFAULT_LINE_COLORS, INDICATOR_META, indicatorLineNames,
+  type IndicatorLineSetting, type IndicatorSettings,
+} from "../lib/indicatorSettings";
+
+interface IndicatorSettingsDialogProps {
+  name: string;
+  settings?: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-20 rounded border border-[#2a2e37] bg-[#0b0e11] px-2 py-1 text-xs text-gray-200 outline-none focus:border-yellow-400/60";
+
+export default function IndicatorSettingsDialog({
+  name, settings, onChange, onReset, onClose,
+}: IndicatorSettingsDialogProps) {
+  const meta = INDICATOR_META[name];
+  const calcParams = settings?.calcParams ?? meta?.defaults ?? [];
+  const visible = settings?.visible ?? true;
+  const lineNames = indicatorLineNames(name, calcParams);
+  const lines: IndicatorLineSetting[] = settings?.lines
+    ?? DEFAULT_LINE_COLORS.map((color) => ({ color, size: 1 }));
+
+  // Raw input text so partially typed numbers don't get clobbered
+  const [paramText, setParamText] = useState(() => calcParams.map(String));
+
+  const apply = (patch: Partial<IndicatorSettings>) => {
+    onChange({ calcParams, lines, visible, ...patch });
+  };
+
+  const changeParam = (i: number, text: string) => {
+    const nextText = paramText.map((t, j) => (j === i ? text : t));
+    setParamText(nextText);
+    const values = nextText.map(Number);
+    if (values.every((v) => Number.isFinite(v) && v > 0)) apply({ calcParams: values });
+  };
+
+  const changeLine = (i: number, patch: Partial<IndicatorLineSetting>) => {
+    apply({ lines: lines.map((l, j) => (j === i ? { ...l, ...patch } : l)) });
+  };
+
+  const reset = () => {
+    setParamText((meta?.defaults ?? []).map(String));
+    onReset();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="animate-fade-in w-80 rounded border border-[#2a2e37] bg-[#1a1d23] shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-[#2a2e37] px-4 py-2">
+          <h3 className="text-sm font-semibold text-gray-200">{name} Settings</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+
+        <div className="space-y-4 px-4 py-3 text-xs text-gray-400">
+          {meta && meta.params.length > 0 && (
+            <section className="space-y-1.5">
+              <h4 className="text-[10px] uppercase tracking-wide text-gray-600">Parameters</h4>
+              {meta.params.map((label, i) => (
+                <label key={label} className="flex items-center justify-between">
+                  <span>{label}</span>
+                  {meta.choices?.[i] ? (
+                    <select
+                      value={paramText[i] ?? ""}
+                      onChange={(e) => changeParam(i, e.target.value)}
+                      className={`${inputClass} w-auto`}
+                    >
+                      {meta.choices[i].map((choice, j) => (
+                        <option key={choice} value={String(j + 1)}>{choice}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={paramText[i] ?? ""}
+                      onChange={(e) => changeParam(i, e.target.value)}
+                      inputMode="decimal"
+                      className={inputClass}
+                    />
+                  )}
+                </label>
+              ))}
+            </section>
+          )}
+
+          {lineNames.length > 0 && (
+            <section className="space-y-1.5">
+              <h4 className="text-[10px] uppercase tracking-wide text-gray-600">Lines</h4>
+              {lineNames.map((lineName, i) => (
+                <div key={`${lineName}-${i}`} className="flex items-center justify-between gap-2">
+                  <span className="flex-1">{lineName}</span>
+                  <input
+                    type="color"
+                    value={lines[i]?.color ?? DEFAULT_LINE_COLORS[i % DEFAULT_LINE_COLORS.length]}
+                    onChange={(e) => changeLine(i, { color: e.target.value })}
+                    className="h-6 w-8 cursor-pointer rounded border border-[#2a2e37] bg-transparent"
+                  />
+                  <select
+                    value={lines[i]?.size ?? 1}
+                    onChange={(e) => changeLine(i, { size: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {[1, 2, 3, 4].map((size) => (
+                      <option key={size} value={size}>{size}px</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </section>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={visible} onChange={(e) => apply({ visible: e.target.checked })} />
+            Visible
+          </label>
+        </div>
+
+        <div className="flex justify-between border-t border-[#2a2e37] px-4 py-2">
+          <button onClick={reset} className="rounded px-3 py-1 text-xs text-gray-400 hover:bg-[#2a2e37]">
+            Reset to defaults
+          </button>
+          <button onClick={onClose} className="rounded bg-yellow-400/20 px-3 py-1 text-xs text-yellow-400 hover:bg-yellow-400/30">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import type { SavedLayout } from "../lib/workspace";
+
+interface LayoutMenuProps {
+  layouts: SavedLayout[];
+  activeLayoutId: string | null;
+  onCreate: (name: string) => void;
+  onUpdate: (id: string) => void;
+  onSwitch: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onShare: () => void;
+}
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+export default function LayoutMenu({
+  layouts, activeLayoutId, onCreate, onUpdate, onSwitch, onRename, onDelete, onShare,
+}: LayoutMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const active = layouts.find((l) => l.id === activeLayoutId);
+
+  const create = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName("");
+  };
+
+  const startRename = (layout: SavedLayout) => {
+    setRenamingId(layout.id);
+    setRenameText(layout.name);
+  };
+
+  const finishRename = () => {
+    const name = renameText.trim();
+    if (renamingId && name) onRename(renamingId, name);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 rounded border border-[#2a2e37] bg-[#1a1d23] px-2 py-1 text-xs text-gray-300 hover:border-[#3a3e47]"
+      >
+        <span className="text-gray-500">Layout</span>
+        {active?.name ?? "Unsaved"}
+      </button>
+
+      {open && (
+        <div className="animate-fade-in absolute left-0 top-full z-50 mt-1 w-60 rounded border border-[#2a2e37] bg-[#1a1d23] py-1 text-xs shadow-xl">
+          {layouts.length === 0 && <p className="px-3 py-1.5 text-gray-600">No saved layouts</p>}
+          {layouts.map((layout) => (
+            <div key={layout.id} className="group flex items-center gap-1 px-3 py-1 hover:bg-[#2a2e37]">
+              {renamingId === layout.id ? (
+                <input
+                  autoFocus
+                  value={renameText}
+                  onChange={(e) => setRenameText(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  className={inputClass}
+                />
+              ) : (
+                <button
+                  onClick={() => { onSwitch(layout.id); setOpen(false); }}
+                  className={`flex-1 truncate text-left ${layout.id === activeLayoutId ? "text-yellow-400" : "text-gray-300"}`}
+                >
+                  {layout.name}
+                </button>
+              )}
+              <div className="flex gap-1 text-gray-500 opacity-0 group-hover:opacity-100">
+                {layout.id === activeLayoutId && (
+                  <button onClick={() => onUpdate(layout.id)} title="Save current view to this layout" className="hover:text-yellow-400">↻</button>
+                )}
+                <button onClick={() => startRename(layout)} title="Rename" className="hover:text-yellow-400">✎</button>
+                <button onClick={() => onDelete(layout.id)} title="Delete" className="hover:text-[#f6465d]">✕</button>
+              </div>
+            </div>
+          ))}
+
+          <div className="mt-1 flex gap-1 border-t border-[#2a2e37] px-3 pt-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") create(); }}
+              placeholder="New layout name"
+              className={inputClass}
+            />
+            <button onClick={create} className="shrink-0 rounded bg-yellow-400/20 px-2 text-yellow-400 hover:bg-yellow-400/30">
+              Save
+            </button>
+          </div>
+          <button
+            onClick={() => { onShare(); setOpen(false); }}
+            className="mt-1 w-full px-3 py-1.5 text-left text-gray-400 hover:bg-[#2a2e37] hover:text-gray-200"
+          >
+            Copy link to this view
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { formatPrice, formatQuantity, type OrderBookData, type SymbolInfo } from "../lib/utils";
+import { groupingSteps, stepDecimals, subscribeOrderBook } from "../lib/orderBook";
+import { describeDataError, type DataError, type DataProvider } from "../lib/providers";
+import DepthChart from "./DepthChart";
+
+interface OrderBookProps {
+  provider: DataProvider;
+  symbol: SymbolInfo;
+  lastPrice?: string;
+  priceUp: boolean;
+}
+
+// Rows shown per side in the book view; the depth chart uses the deeper list
+const BOOK_ROWS = 15;
+const DEPTH_LEVELS = 100;
+
+function OrderBook({ provider, symbol, lastPrice, priceUp }: OrderBookProps) {
+  const [fullBook, setFullBook] = useState<OrderBookData>({ bids: [], asks: [] });
+  const [view, setView] = useState<"book" | "depth">("book");
+  const [groupIndex, setGroupIndex] = useState(0);
+  const [error, setError] = useState<DataError | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const steps = groupingSteps(symbol.pricePrecision);
+  const { step, snapshotLimit } = steps[groupIndex] ?? steps[0];
+  const grouped = groupIndex > 0;
+
+  // Grouping is per symbol, since the steps derive from its tick size
+  useEffect(() => { setGroupIndex(0); }, [symbol.symbol]);
+
+  // Locally maintained book from snapshot + diff stream; updates are throttled
+  useEffect(() => {
+    setFullBook({ bids: [], asks: [] });
+    setError(null);
+    setUnavailable(false);
+    return subscribeOrderBook(provider, symbol.symbol, setFullBook, {
+      depth: DEPTH_LEVELS,
+      snapshotLimit,
+      grouping: grouped ? step : undefined,
+      onError: setError,
+      onUnavailable: () => setUnavailable(true),
+    });
+  }, [provider, symbol.symbol, step, snapshotLimit, grouped]);
+
+  const { quantityPrecision } = symbol;
+  const pricePrecision = grouped ? Math.min(symbol.pricePrecision, stepDecimals(step)) : symbol.pricePrecision;
+  const asks = fullBook.asks.slice(0, BOOK_ROWS);
+  const bids = fullBook.bids.slice(0, BOOK_ROWS);
+
+  const bestBid = fullBook.bids[0] ? parseFloat(fullBook.bids[0].price) : null;
+  const bestAsk = fullBook.asks[0] ? parseFloat(fullBook.asks[0].price) : null;
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+  const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+
+  const maxAskTotal = asks[asks.length - 1]?.total || 1;
+  const maxBidTotal = bids[bids.length - 1]?.total || 1;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="flex items-center justify-between border-b border-[#2a2e37] px-3 py-2">
+        <h3 className="text-xs font-semibold text-gray-400">Order Book</h3>
+        <div className="flex items-center gap-1 text-[11px]">
+          <select
+            value={groupIndex}
+            onChange={(e) => setGroupIndex(Number(e.target.value))}
+            title="Price grouping"
+            className="bg-transparent text-gray-500 outline-none"
+          >
+            {steps.map((s, i) => (
+              <option key={s.step} value={i}>{s.step.toFixed(stepDecimals(s.step))}</option>
+            ))}
+          </select>
+          {(["book", "depth"] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`rounded px-1.5 py-0.5 ${view === v ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+            >
+              {v === "book" ? "Book" : "Depth"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="border-b border-[#2a2e37] bg-[#f6465d]/10 px-3 py-1 text-[10px] text-[#f6465d]">
+          {describeDataError(error)} · retrying
+        </div>
+      )}
+
+      {/* Spread / Mid */}
+      <div className="flex justify-between px-3 py-1 text-[10px] text-gray-500">
+        <span>
+          Spread {spread !== null ? formatPrice(spread, symbol.pricePrecision) : "—"}
+          {spread !== null && mid ? ` (${((spread / mid) * 100).toFixed(3)}%)` : ""}
+        </span>
+        <span>Mid {mid !== null ? formatPrice(mid, symbol.pricePrecision + 1) : "—"}</span>
+      </div>
+
+      {unavailable ? (
+        <div className="flex flex-1 items-center justify-center text-xs text-gray-600">No order book for this symbol</div>
+      ) : view === "depth" ? (
+        <DepthChart book={fullBook} symbol={symbol} mid={mid} />
+      ) : (
+        <>
+          {/* Column Headers */}
+          <div className="flex items-center justify-between px-3 py-1 text-[10px] text-gray-600">
+            <span>Price ({symbol.quoteAsset})</span>
+            <span>Amount ({symbol.baseAsset})</span>
+            <span>Total</span>
+          </div>
+
+          {/* Asks (sells), best ask nearest the spread */}
+          <div className="flex flex-1 flex-col-reverse overflow-hidden">
+            {asks.map((ask, i) => (
+              <div key={`ask-${i}`} className="group relative flex items-center justify-between px-3 py-[2px] text-[11px]">
+                <div
+                  className="absolute inset-y-0 right-0 bg-[#f6465d]/10"
+                  style={{ width: `${Math.min(100, (ask.total / maxAskTotal) * 100)}%` }}
+                />
+                <span className="relative z-10 font-mono text-[#f6465d]">{formatPrice(ask.price, pricePrecision)}</span>
+                <span className="relative z-10 font-mono text-gray-400">{formatQuantity(ask.qty, quantityPrecision)}</span>
+                <span className="relative z-10 font-mono text-gray-500">{formatQuantity(ask.total, quantityPrecision)}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Current Price */}
+          <div className="border-y border-[#2a2e37] px-3 py-2 text-center">
+            {lastPrice && (
+              <span className={`text-base font-bold ${priceUp ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>
+                {formatPrice(lastPrice, symbol.pricePrecision)}
+              </span>
+            )}
+          </div>
+
+          {/* Bids (buys) */}
+          <div className="flex flex-1 flex-col overflow-hidden">
+            {bids.map((bid, i) => (
+              <div key={`bid-${i}`} className="group relative flex items-center justify-between px-3 py-[2px] text-[11px]">
+                <div
+                  className="absolute inset-y-0 right-0 bg-[#0ecb81]/10"
+                  style={{ width: `${Math.min(100, (bid.total / maxBidTotal) * 100)}%` }}
+                />
+                <span className="relative z-10 font-mono text-[#0ecb81]">{formatPrice(bid.price, pricePrecision)}</span>
+                <span className="relative z-10 font-mono text-gray-400">{formatQuantity(bid.qty, quantityPrecision)}</span>
+                <span className="relative z-10 font-mono text-gray-500">{formatQuantity(bid.total, quantityPrecision)}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default memo(OrderBook);
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import {
+  accountEquity, unrealizedPnl,
+  type OrderDraft, type OrderSide, type PaperAccount, type PaperOrderType,
+} from "../lib/paperTrading";
+import { formatPrice, type SymbolInfo } from "../lib/utils";
+
+interface PaperTradingPanelProps {
+  account: PaperAccount;
+  prices: Record<string, number>;
+  /** Name of the account's provider while another one is selected. */
+  pausedOn: string | null;
+  symbol: SymbolInfo;
+  lastPrice?: string;
+  onSubmit: (draft: OrderDraft, marketPrice: number | undefined) => string | null;
+  onCancel: (id: string) => void;
+  onClosePosition: (symbol: string, marketPrice: number | undefined) => void;
+  onReset: (balance: number) => void;
+  onClose: () => void;
+}
+
+type Tab = "positions" | "orders" | "fills";
+
+const inputClass = "w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+const signed = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+// Quantities are free-form, so trim float noise rather than fix decimals
+const qtyText = (qty: number) => String(+qty.toFixed(8));
+const pnlClass = (value: number) => (value >= 0 ? "text-[#0ecb81]" : "text-[#f6465d]");
+
+/**
+ * Order ticket, account summary and position/order/fill tables for the
+ * paper trading account. Orders are placed on the active chart's symbol.
+ */
+export default function PaperTradingPanel({
+  account, prices, pausedOn, symbol, lastPrice, onSubmit, onCancel, onClosePosition, onReset, onClose,
+}: PaperTradingPanelProps) {
+  const [side, setSide] = useState<OrderSide>("buy");
+  const [type, setType] = useState<PaperOrderType>("market");
+  const [qty, setQty] = useState("");
+  const [price, setPrice] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<Tab>("positions");
+
+  const marketPrice = prices[symbol.symbol] ?? (lastPrice ? parseFloat(lastPrice) : undefined);
+  const equity = accountEquity(account, prices);
+  const unrealized = equity - account.balance;
+  const estPrice = type === "market" ? marketPrice : parseFloat(price);
+  const notional = (parseFloat(qty) || 0) * (estPrice || 0);
+
+  const changeType = (next: PaperOrderType) => {
+    setType(next);
+    if (next !== "market" && !price && marketPrice) setPrice(marketPrice.toFixed(symbol.pricePrecision));
+  };
+
+  const submit = () => {
+    const result = onSubmit({
+      symbol: symbol.symbol,
+      side,
+      type,
+      qty: parseFloat(qty),
+      price: type === "market" ? undefined : parseFloat(price),
+    }, marketPrice);
+    setError(result);
+    if (!result) setTab(type === "market" ? "positions" : "orders");
+  };
+
+  const reset = () => {
+    const input = window.prompt("Reset the paper account with a starting balance of", String(account.initialBalance));
+    const balance = input === null ? NaN : parseFloat(input);
+    if (balance > 0) onReset(balance);
+  };
+
+  return (
+    <div className="flex h-72 flex-none flex-col border-t border-[#2a2e37] bg-[#0b0e11] text-[11px]">
+      <div className="flex items-center gap-4 border-b border-[#2a2e37] px-3 py-1.5">
+        <h3 className="text-xs font-semibold text-gray-400">Paper Trading</h3>
+        <span className="text-gray-500">Balance <span className="font-mono text-gray-200">{account.balance.toFixed(2)}</span></span>
+        <span className="text-gray-500">Equity <span className="font-mono text-gray-200">{equity.toFixed(2)}</span></span>
+        <span className="text-gray-500">Unrealized <span className={`font-mono ${pnlClass(unrealized)}`}>{signed(unrealized)}</span></span>
+        <span className="text-gray-500">
+          Realized <span className={`font-mono ${pnlClass(account.balance - account.initialBalance)}`}>{signed(account.balance - account.initialBalance)}</span>
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          {pausedOn && <span className="text-yellow-400">Paused: orders and positions are on {pausedOn}</span>}
+          <button onClick={reset} className="text-gray-500 hover:text-gray-300">Reset</button>
+          <button onClick={onClose} title="Close" className="text-gray-500 hover:text-gray-300">✕</button>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        {/* Order Ticket */}
+        <div className="w-60 flex-none space-y-2 border-r border-[#2a2e37] p-2 text-gray-400">
+          <div className="grid grid-cols-2 gap-1">
+            {(["buy", "sell"] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => setSide(s)}
+                className={`rounded py-1 font-semibold ${
+                  side === s
+                    ? s === "buy" ? "bg-[#0ecb81] text-black" : "bg-[#f6465d] text-white"
+                    : "bg-[#1a1d23] text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                {s === "buy" ? "Buy" : "Sell"}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {(["market", "limit", "stop"] as const).map((t) => (
+              <button
+                key={t}
+                onClick={() => changeType(t)}
+                className={`rounded px-2 py-0.5 capitalize ${type === t ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          {type !== "market" && (
+            <label className="flex items-center gap-1.5">
+              <span className="w-12 text-gray-600">{type === "stop" ? "Trigger" : "Price"}</span>
+              <input value={price} onChange={(e) => setPrice(e.target.value)} inputMode="decimal" className={inputClass} />
+            </label>
+          )}
+          <label className="flex items-center gap-1.5">
+            <span className="w-12 text-gray-600">Qty</span>
+            <input value={qty} onChange={(e) => setQty(e.target.value)} inputMode="decimal" placeholder={symbol.baseAsset} className={inputClass} />
+          </label>
+          <div className="flex justify-between text-gray-600">
+            <span>≈ {notional > 0 ? notional.toFixed(2) : "—"} {symbol.quoteAsset}</span>
+            <span>Fee {account.feePct}%</span>
+          </div>
+          <button
+            onClick={submit}
+            className={`w-full rounded py-1 font-semibold ${side === "buy" ? "bg-[#0ecb81] text-black" : "bg-[#f6465d] text-white"} hover:opacity-90`}
+          >
+            {side === "buy" ? "Buy" : "Sell"} {symbol.baseAsset}
+          </button>
+          {error && <div className="text-[#f6465d]">{error}</div>}
+        </div>
+
+        {/* Account Tables */}
+        <div className="flex min-w-0 flex-1 flex-col">
+          <div className="flex gap-1 border-b border-[#2a2e37] px-2 py-1">
+            {([
+              ["positions", `Positions (${account.positions.length})`],
+              ["orders", `Open orders (${account.orders.length})`],
+              ["fills", "Fills"],
+            ] as const).map(([t, label]) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`rounded px-2 py-0.5 ${tab === t ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="min-h-0 flex-1 overflow-y-auto font-mono">
+            {tab === "positions" && (
+              account.positions.length === 0 ? (
+                <div className="py-4 text-center text-gray-600">No open positions</div>
+              ) : account.positions.map((p) => {
+                const mark = prices[p.symbol];
+                const pnl = mark !== undefined ? unrealizedPnl(p, mark) : null;
+                return (
+                  <div key={p.symbol} className="flex items-center gap-3 px-3 py-1 text-gray-400 hover:bg-[#1a1d23]">
+                    <span className="w-24 text-gray-200">{p.symbol}</span>
+                    <span className={`w-12 ${p.qty > 0 ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>{p.qty > 0 ? "Long" : "Short"}</span>
+                    <span className="w-24 text-right">{qtyText(Math.abs(p.qty))}</span>
+                    <span className="w-28 text-right">@ {formatPrice(p.entryPrice)}</span>
+                    <span className="w-28 text-right">{mark !== undefined ? formatPrice(mark) : "—"}</span>
+                    <span className={`w-24 text-right ${pnl !== null ? pnlClass(pnl) : ""}`}>{pnl !== null ? signed(pnl) : "—"}</span>
+                    <button
+                      onClick={() => onClosePosition(p.symbol, p.symbol === symbol.symbol ? marketPrice : undefined)}
+                      disabled={pausedOn !== null}
+                      className="ml-auto text-gray-500 hover:text-yellow-400 disabled:opacity-40 disabled:hover:text-gray-500"
+                    >
+                      Close
+                    </button>
+                  </div>
+                );
+              })
+            )}
+            {tab === "orders" && (
+              account.orders.length === 0 ? (
+                <div className="py-4 text-center text-gray-600">No open orders — drag order lines on the chart to amend</div>
+              ) : account.orders.map((o) => (
+                <div key={o.id} className="flex items-center gap-3 px-3 py-1 text-gray-400 hover:bg-[#1a1d23]">
+                  <span className="w-24 text-gray-200">{o.symbol}</span>
+                  <span className={`w-12 ${o.side === "buy" ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>{o.side === "buy" ? "Buy" : "Sell"}</span>
+                  <span className="w-12 capitalize">{o.type}</span>
+                  <span className="w-24 text-right">{qtyText(o.qty)}</span>
+                  <span className="w-28 text-right">@ {formatPrice(o.price)}</span>
+                  <button onClick={() => onCancel(o.id)} title="Cancel order" className="ml-auto text-gray-500 hover:text-[#f6465d]">✕</button>
+                </div>
+              ))
+            )}
+            {tab === "fills" && (
+              account.fills.length === 0 ? (
+                <div className="py-4 text-center text-gray-600">No fills yet</div>
+              ) : account.fills.map((f) => (
+                <div key={f.id} className="flex items-center gap-3 px-3 py-0.5 text-gray-400">
+                  <span className="w-32 text-gray-500">{new Date(f.time).toLocaleString([], { hour12: false })}</span>
+                  <span className="w-24 text-gray-200">{f.symbol}</span>
+                  <span className={`w-10 ${f.side === "buy" ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>{f.side === "buy" ? "Buy" : "Sell"}</span>
+                  <span className="w-24 text-right">{qtyText(f.qty)}</span>
+                  <span className="w-28 text-right">@ {formatPrice(f.price)}</span>
+                  <span className="w-20 text-right text-gray-600">fee {f.fee.toFixed(2)}</span>
+                  {f.realizedPnl !== 0 && <span className={`w-20 text-right ${pnlClass(f.realizedPnl)}`}>{signed(f.realizedPnl)}</span>}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { memo, useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_TAPE_SETTINGS, addVolume, buildTape, loadTapeSettings, saveTapeSettings, volumeSplit,
+  type TapeSettings, type VolumeBuckets,
+} from "../lib/trades";
+import { formatNumber, formatPrice, formatQuantity, type SymbolInfo } from "../lib/utils";
+import type { DataProvider, Trade } from "../lib/providers";
+
+interface RecentTradesProps {
+  provider: DataProvider;
+  symbol: SymbolInfo;
+}
+
+const MAX_TRADES = 500;
+const MAX_ROWS = 60;
+const FLUSH_MS = 250;
+const RATIO_WINDOW_MS = 60 * 1000;
+
+const inputClass = "w-20 rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+function RecentTrades({ provider, symbol }: RecentTradesProps) {
+  // Newest first; stream pushes are buffered and flushed on a timer to keep renders cheap
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [settings, setSettings] = useState<TapeSettings>(DEFAULT_TAPE_SETTINGS);
+  const [thresholdText, setThresholdText] = useState(String(DEFAULT_TAPE_SETTINGS.largeThreshold));
+  const bufferRef = useRef<Trade[]>([]);
+  const [split, setSplit] = useState({ buy: 0, sell: 0 });
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => {
+    const saved = loadTapeSettings();
+    setSettings(saved);
+    setThresholdText(String(saved.largeThreshold));
+  }, []);
+
+  useEffect(() => {
+    setTrades([]);
+    setSplit({ buy: 0, sell: 0 });
+    bufferRef.current = [];
+    // The ratio covers the whole window however many trades the list keeps
+    const volume: VolumeBuckets = new Map();
+    let newest = 0;
+    const unsubscribe = provider.subscribeTrades(symbol.symbol, (trade) => {
+      bufferRef.current.push(trade);
+      addVolume(volume, trade);
+      newest = Math.max(newest, trade.time);
+    });
+    const timer = setInterval(() => {
+      if (bufferRef.current.length === 0) return;
+      const fresh = bufferRef.current.reverse();
+      bufferRef.current = [];
+      setTrades((prev) => [...fresh, ...prev].slice(0, MAX_TRADES));
+      setSplit(volumeSplit(volume, newest - RATIO_WINDOW_MS));
+    }, FLUSH_MS);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [provider, symbol.symbol]);
+
+  const update = (patch: Partial<TapeSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...patch };
+      saveTapeSettings(next);
+      return next;
+    });
+  };
+
+  const changeThreshold = (text: string) => {
+    setThresholdText(text);
+    const value = Number(text);
+    if (Number.isFinite(value) && value >= 0) update({ largeThreshold: value });
+  };
+
+  const rows = useMemo(() => buildTape(trades, settings.merge).slice(0, MAX_ROWS), [trades, settings.merge]);
+  const buyShare = split.buy + split.sell > 0 ? (split.buy / (split.buy + split.sell)) * 100 : 50;
+
+  return (
+    <div className="flex h-64 shrink-0 flex-col border-t border-[#2a2e37]">
+      <div className="flex items-center justify-between px-3 py-2">
+        <h3 className="text-xs font-semibold text-gray-400">Recent Trades</h3>
+        <label className="flex items-center gap-1 text-[11px] text-gray-500">
+          <input type="checkbox" checked={settings.merge} onChange={(e) => update({ merge: e.target.checked })} />
+          Merge
+        </label>
+      </div>
+
+      <div className="flex items-center gap-1.5 px-3 pb-1.5 text-[11px] text-gray-500">
+        <span>Large ≥</span>
+        <input value={thresholdText} onChange={(e) => changeThreshold(e.target.value)} inputMode="decimal" className={inputClass} />
+        <span>{symbol.quoteAsset}</span>
+      </div>
+
+      {/* Taker buy/sell quote volume over the last minute */}
+      <div className="px-3 pb-1.5" title="Taker buy vs sell volume, last 60s">
+        <div className="flex h-1.5 overflow-hidden rounded bg-[#f6465d]/60">
+          <div className="bg-[#0ecb81]/70" style={{ width: `${buyShare}%` }} />
+        </div>
+        <div className="mt-0.5 flex justify-between text-[10px]">
+          <span className="text-[#0ecb81]">B {buyShare.toFixed(0)}% · {formatNumber(split.buy)}</span>
+          <span className="text-[#f6465d]">{formatNumber(split.sell)} · {(100 - buyShare).toFixed(0)}% S</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-1 text-[10px] text-gray-600">
+        <span>Price ({symbol.quoteAsset})</span>
+        <span>Amount ({symbol.baseAsset})</span>
+        <span>Time</span>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {rows.map((row) => {
+          const large = row.price * row.qty >= settings.largeThreshold;
+          const color = row.side === "buy" ? "text-[#0ecb81]" : "text-[#f6465d]";
+          const tint = row.side === "buy" ? "bg-[#0ecb81]/10" : "bg-[#f6465d]/10";
+          return (
+            <div
+              key={row.id}
+              className={`flex items-center justify-between px-3 py-[2px] font-mono text-[11px] ${large ? `${tint} font-semibold` : ""}`}
+            >
+              <span className={color}>{formatPrice(row.price, symbol.pricePrecision)}</span>
+              <span className={large ? "text-gray-200" : "text-gray-400"}>
+                {formatQuantity(row.qty, symbol.quantityPrecision)}
+                {row.count > 1 && <span className="ml-1 text-[10px] text-gray-600">×{row.count}</span>}
+              </span>
+              <span className="text-gray-500">{new Date(row.time).toLocaleTimeString([], { hour12: false })}</span>
+            </div>
+          );
+        })}
+        {rows.length === 0 && <p className="px-3 py-2 text-[11px] text-gray-600">Waiting for trades…</p>}
+      </div>
+    </div>
+  );
+}
+
+export default memo(RecentTrades);
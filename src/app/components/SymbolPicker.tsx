@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { QUOTE_FILTERS, loadFavorites, saveFavorites, searchSymbols } from "../lib/symbols";
+import type { SymbolInfo } from "../lib/utils";
+
+interface SymbolPickerProps {
+  symbols: SymbolInfo[];
+  current: SymbolInfo;
+  onSelect: (symbol: SymbolInfo) => void;
+}
+
+// Rendering thousands of rows makes typing sluggish; a search narrows it anyway
+const MAX_RESULTS = 100;
+
+export default function SymbolPicker({ symbols, current, onSelect }: SymbolPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<string | null>("USDT");
+  const [favorites, setFavorites] = useState<string[]>([]);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setFavorites(loadFavorites()); }, []);
+
+  // Quote filters only for quotes the provider lists; imported files have none, so they show under All
+  const quotes = useMemo(() => QUOTE_FILTERS.filter((q) => symbols.some((s) => s.quoteAsset === q)), [symbols]);
+  const activeFilter = filter === null || filter === "favorites" || quotes.includes(filter) ? filter : null;
+
+  const results = useMemo(
+    () => searchSymbols(symbols, query, activeFilter, favorites),
+    [symbols, query, activeFilter, favorites],
+  );
+
+  const toggleFavorite = (symbol: string) => {
+    setFavorites((prev) => {
+      const next = prev.includes(symbol) ? prev.filter((s) => s !== symbol) : [...prev, symbol];
+      saveFavorites(next);
+      return next;
+    });
+  };
+
+  const select = (symbol: SymbolInfo) => {
+    onSelect(symbol);
+    setOpen(false);
+    setQuery("");
+  };
+
+  const filters: Array<{ value: string | null; label: string }> = [
+    { value: "favorites", label: "★" },
+    { value: null, label: "All" },
+    ...quotes.map((q) => ({ value: q, label: q })),
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded px-3 py-1.5 text-sm font-semibold hover:bg-[#1a1d23]"
+      >
+        <span className="text-white">{current.pair}</span>
+        <svg className="h-3 w-3 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="animate-fade-in absolute left-0 top-full z-50 mt-1 w-72 rounded border border-[#2a2e37] bg-[#1a1d23] shadow-xl">
+          <div className="p-2">
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && results[0]) select(results[0]);
+                if (e.key === "Escape") setOpen(false);
+              }}
+              placeholder="Search symbol"
+              className="w-full rounded border border-[#2a2e37] bg-[#0b0e11] px-2 py-1 text-xs text-gray-200 outline-none focus:border-yellow-400/60"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-0.5 border-b border-[#2a2e37] px-2 pb-2">
+            {filters.map((f) => (
+              <button
+                key={f.label}
+                onClick={() => setFilter(f.value)}
+                className={`rounded px-1.5 py-0.5 text-[11px] ${
+                  activeFilter === f.value ? "bg-[#2a2e37] text-yellow-400" : "text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto py-1">
+            {results.length === 0 && (
+              <p className="px-3 py-2 text-xs text-gray-600">
+                {activeFilter === "favorites" ? "No favorites yet" : "No matching symbols"}
+              </p>
+            )}
+            {results.slice(0, MAX_RESULTS).map((s) => (
+              <div
+                key={s.symbol}
+                className={`flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-[#2a2e37] ${s.symbol === current.symbol ? "text-yellow-400" : "text-gray-300"}`}
+              >
+                <button
+                  onClick={() => toggleFavorite(s.symbol)}
+                  title={favorites.includes(s.symbol) ? "Remove from favorites" : "Add to favorites"}
+                  className={favorites.includes(s.symbol) ? "text-yellow-400" : "text-gray-600 hover:text-gray-400"}
+                >
+                  ★
+                </button>
+                <button onClick={() => select(s)} className="flex flex-1 items-center justify-between">
+                  <span className="font-medium">{s.pair}</span>
+                  <span className="text-xs text-gray-500">{s.name}</span>
+                </button>
+              </div>
+            ))}
+            {results.length > MAX_RESULTS && (
+              <p className="px-3 py-1 text-[11px] text-gray-600">
+                {results.length - MAX_RESULTS} more — refine the search
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { BAR_TIMEZONES, barTimezoneLabel, timeframeFor, type BarTimezone } from "../lib/timeframes";
+import { TIMEFRAMES, type Timeframe } from "../lib/utils";
+
+interface TimeframeSelectorProps {
+  timeframe: Timeframe;
+  /** Custom intervals pinned next to the built-in ones. */
+  pinned: string[];
+  onSelect: (timeframe: Timeframe) => void;
+  onTogglePin: (interval: string) => void;
+  /** Timezone custom timeframe bars open in. */
+  timezone: BarTimezone;
+  onTimezoneChange: (timezone: BarTimezone) => void;
+}
+
+const inputClass = "w-12 rounded border bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none";
+
+export default function TimeframeSelector({
+  timeframe, pinned, onSelect, onTogglePin, timezone, onTimezoneChange,
+}: TimeframeSelectorProps) {
+  const [custom, setCustom] = useState("");
+  const [invalid, setInvalid] = useState(false);
+
+  const isBuiltIn = TIMEFRAMES.some((tf) => tf.value === timeframe.value);
+  const isPinned = pinned.includes(timeframe.interval);
+  const shown = [
+    ...TIMEFRAMES,
+    ...pinned.map(timeframeFor).filter((tf): tf is Timeframe => tf !== null),
+    ...(isBuiltIn || isPinned ? [] : [timeframe]),
+  ];
+
+  const apply = () => {
+    const tf = timeframeFor(custom);
+    if (!tf) {
+      setInvalid(true);
+      return;
+    }
+    onSelect(tf);
+    setCustom("");
+  };
+
+  return (
+    <div className="flex items-center gap-0.5">
+      {shown.map((tf) => (
+        <button
+          key={tf.value}
+          onClick={() => onSelect(tf)}
+          className={`rounded px-2.5 py-1 text-xs font-medium transition-colors ${
+            timeframe.value === tf.value
+              ? "bg-[#2a2e37] text-yellow-400"
+              : "text-gray-400 hover:text-gray-200"
+          }`}
+        >
+          {tf.label}
+        </button>
+      ))}
+      {!isBuiltIn && (
+        <button
+          onClick={() => onTogglePin(timeframe.interval)}
+          title={isPinned ? "Unpin from toolbar" : "Pin to toolbar"}
+          className={`px-1 text-xs ${isPinned ? "text-yellow-400" : "text-gray-500 hover:text-gray-300"}`}
+        >
+          {isPinned ? "★" : "☆"}
+        </button>
+      )}
+      <input
+        value={custom}
+        onChange={(e) => {
+          setCustom(e.target.value);
+          setInvalid(false);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") apply();
+          if (e.key === "Escape") setCustom("");
+        }}
+        placeholder="45m"
+        title="Custom timeframe, e.g. 45m, 2H, 3D, 2W or 1M; press Enter"
+        className={`${inputClass} ml-1 ${invalid ? "border-[#f6465d]" : "border-[#2a2e37] focus:border-yellow-400/60"}`}
+      />
+      <select
+        value={String(timezone)}
+        onChange={(e) => onTimezoneChange(e.target.value === "local" ? "local" : Number(e.target.value))}
+        title="Timezone custom timeframes open their days, weeks and months in"
+        className="ml-1 bg-transparent text-[11px] text-gray-500 outline-none"
+      >
+        {BAR_TIMEZONES.map((tz) => (
+          <option key={tz} value={String(tz)}>{barTimezoneLabel(tz)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
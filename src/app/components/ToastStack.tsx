@@ -0,0 +1,34 @@
+"use client";
+
+import type { Toast, ToastTone } from "../hooks/useToasts";
+
+const TONE_BORDERS: Record<ToastTone, string> = {
+  info: "border-l-blue-400",
+  success: "border-l-[#0ecb81]",
+  warning: "border-l-yellow-400",
+  error: "border-l-[#f6465d]",
+};
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+export default function ToastStack({ toasts, onDismiss }: ToastStackProps) {
+  return (
+    <div className="pointer-events-none fixed bottom-4 right-4 z-[100] flex w-72 flex-col gap-2">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`animate-fade-in pointer-events-auto rounded border border-l-4 border-[#2a2e37] bg-[#1a1d23] px-3 py-2 shadow-xl ${TONE_BORDERS[toast.tone]}`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <span className="text-xs font-semibold text-gray-200">{toast.title}</span>
+            <button onClick={() => onDismiss(toast.id)} className="text-xs text-gray-500 hover:text-gray-300">✕</button>
+          </div>
+          {toast.message && <p className="mt-0.5 text-[11px] text-gray-400">{toast.message}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
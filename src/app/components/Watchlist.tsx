@@ -0,0 +1,191 @@
+"use client";
+
+import { memo, useMemo, useState } from "react";
+import { useWatchlists } from "../hooks/useWatchlists";
+import { useWatchlistData } from "../hooks/useWatchlistData";
+import { changePercent, sortWatchlist, type WatchlistSort } from "../lib/watchlist";
+import { placeholderSymbol, searchSymbols } from "../lib/symbols";
+import { formatNumber, formatPrice, type SymbolInfo } from "../lib/utils";
+import type { DataProvider } from "../lib/providers";
+
+interface WatchlistProps {
+  provider: DataProvider;
+  symbols: SymbolInfo[];
+  current: SymbolInfo;
+  onSelect: (symbol: SymbolInfo) => void;
+}
+
+const SORT_LABELS: Record<WatchlistSort, string> = {
+  manual: "Manual",
+  change: "24h %",
+  volume: "Volume",
+};
+
+const inputClass = "rounded border border-[#2a2e37] bg-[#0b0e11] px-1.5 py-0.5 text-[11px] text-gray-200 outline-none focus:border-yellow-400/60";
+
+function Sparkline({ points, up }: { points: number[]; up: boolean }) {
+  if (points.length < 2) return <div className="h-5 w-14" />;
+  const min = Math.min(...points);
+  const range = Math.max(...points) - min || 1;
+  const path = points
+    .map((p, i) => `${((i / (points.length - 1)) * 56).toFixed(1)},${(19 - ((p - min) / range) * 18).toFixed(1)}`)
+    .join(" ");
+  return (
+    <svg className="h-5 w-14 shrink-0" viewBox="0 0 56 20">
+      <polyline points={path} fill="none" stroke={up ? "#0ecb81" : "#f6465d"} strokeWidth={1} />
+    </svg>
+  );
+}
+
+function Watchlist({ provider, symbols, current, onSelect }: WatchlistProps) {
+  const watchlists = useWatchlists();
+  const { active } = watchlists;
+  const { tickers, sparklines } = useWatchlistData(provider, active.symbols);
+  const [sort, setSort] = useState<WatchlistSort>("manual");
+  const [adding, setAdding] = useState(false);
+  const [query, setQuery] = useState("");
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const bySymbol = useMemo(() => new Map(symbols.map((s) => [s.symbol, s])), [symbols]);
+  const info = (symbol: string) => bySymbol.get(symbol) ?? placeholderSymbol(symbol);
+  const rows = sortWatchlist(active.symbols, tickers, sort);
+
+  const suggestions = useMemo(
+    () => (query ? searchSymbols(symbols, query, null, []).filter((s) => !active.symbols.includes(s.symbol)).slice(0, 8) : []),
+    [symbols, query, active.symbols],
+  );
+
+  const add = (symbol: string) => {
+    watchlists.addSymbol(symbol);
+    setQuery("");
+  };
+
+  const createList = () => {
+    const name = window.prompt("New watchlist name")?.trim();
+    if (name) watchlists.createList(name);
+  };
+
+  const renameList = () => {
+    const name = window.prompt("Rename watchlist", active.name)?.trim();
+    if (name) watchlists.renameList(active.id, name);
+  };
+
+  const deleteList = () => {
+    if (window.confirm(`Delete the "${active.name}" watchlist?`)) watchlists.deleteList(active.id);
+  };
+
+  const drop = (to: number) => {
+    if (dragIndex !== null && dragIndex !== to) watchlists.moveSymbol(dragIndex, to);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="flex min-h-0 flex-col border-t border-[#2a2e37]">
+      <div className="flex items-center gap-1 px-3 py-2">
+        <select
+          value={active.id}
+          onChange={(e) => watchlists.selectList(e.target.value)}
+          className="min-w-0 flex-1 truncate bg-transparent text-xs font-semibold text-gray-400 outline-none"
+        >
+          {watchlists.lists.map((l) => (
+            <option key={l.id} value={l.id}>{l.name}</option>
+          ))}
+        </select>
+        <button onClick={createList} title="New watchlist" className="px-0.5 text-xs text-gray-500 hover:text-yellow-400">⊕</button>
+        <button onClick={renameList} title="Rename watchlist" className="px-0.5 text-xs text-gray-500 hover:text-yellow-400">✎</button>
+        {watchlists.lists.length > 1 && (
+          <button onClick={deleteList} title="Delete watchlist" className="px-0.5 text-xs text-gray-500 hover:text-[#f6465d]">✕</button>
+        )}
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as WatchlistSort)}
+          title="Sort by"
+          className="bg-transparent text-[11px] text-gray-500 outline-none"
+        >
+          {(Object.keys(SORT_LABELS) as WatchlistSort[]).map((s) => (
+            <option key={s} value={s}>{SORT_LABELS[s]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => { setAdding(!adding); setQuery(""); }}
+          className="text-xs text-gray-500 hover:text-yellow-400"
+        >
+          {adding ? "Done" : "+ Add"}
+        </button>
+      </div>
+
+      {adding && (
+        <div className="animate-fade-in px-3 pb-2">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && suggestions[0]) add(suggestions[0].symbol); }}
+            placeholder="Search symbol to add"
+            className={`${inputClass} w-full`}
+          />
+          {suggestions.map((s) => (
+            <button
+              key={s.symbol}
+              onClick={() => add(s.symbol)}
+              className="flex w-full items-center justify-between px-1.5 py-1 text-[11px] text-gray-300 hover:bg-[#1a1d23]"
+            >
+              <span>{s.pair}</span>
+              <span className="text-gray-500">{s.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-48 overflow-y-auto">
+        {rows.length === 0 && <p className="px-3 pb-2 text-[11px] text-gray-600">No symbols in this list</p>}
+        {rows.map((symbol) => {
+          const s = info(symbol);
+          const ticker = tickers[symbol];
+          const change = ticker ? changePercent(ticker) : 0;
+          const up = change >= 0;
+          const history = sparklines[symbol] ?? [];
+          const points = ticker && history.length > 0 ? [...history.slice(0, -1), ticker.lastPrice] : history;
+          const index = active.symbols.indexOf(symbol);
+          return (
+            <div
+              key={symbol}
+              draggable={sort === "manual"}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => { if (dragIndex !== null) e.preventDefault(); }}
+              onDrop={() => drop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              onClick={() => onSelect(s)}
+              className={`group flex cursor-pointer items-center gap-2 px-3 py-1.5 text-xs hover:bg-[#1a1d23] ${
+                symbol === current.symbol ? "bg-[#1a1d23]" : ""
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium text-gray-300">{s.pair}</div>
+                <div className="text-[10px] text-gray-600">
+                  {ticker ? `Vol ${formatNumber(ticker.quoteVolume)}` : s.name}
+                </div>
+              </div>
+              <Sparkline points={points} up={up} />
+              <div className="w-20 text-right font-mono">
+                <div className="text-gray-300">{ticker ? formatPrice(ticker.lastPrice, s.pricePrecision) : "—"}</div>
+                <div className={`text-[10px] ${up ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>
+                  {ticker ? `${up ? "+" : ""}${change.toFixed(2)}%` : ""}
+                </div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); watchlists.removeSymbol(symbol); }}
+                title="Remove"
+                className="text-gray-600 opacity-0 hover:text-[#f6465d] group-hover:opacity-100"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default memo(Watchlist);
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  describeAlert, loadAlerts, monitorAlerts, saveAlerts,
+  type AlertRule,
+} from "../lib/alerts";
+import { formatPrice } from "../lib/utils";
+import type { DataProvider } from "../lib/providers";
+
+function notifyBrowser(title: string, body: string) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  try {
+    new Notification(title, { body });
+  } catch {
+    // Some browsers only allow notifications from a service worker
+  }
+}
+
+/**
+ * Persisted alert rules plus the live monitor that evaluates them. Fired
+ * alerts are reported through `onTrigger` and as browser notifications.
+ */
+export function useAlerts(
+  provider: DataProvider,
+  onTrigger: (alert: AlertRule, message: string) => void,
+) {
+  const [alerts, setAlerts] = useState<AlertRule[]>([]);
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setAlerts(loadAlerts()); }, []);
+
+  const update = useCallback((fn: (prev: AlertRule[]) => AlertRule[]) => {
+    setAlerts((prev) => {
+      const next = fn(prev);
+      saveAlerts(next);
+      return next;
+    });
+  }, []);
+
+  const addAlert = useCallback((alert: Omit<AlertRule, "id" | "providerId" | "createdAt" | "active">) => {
+    if (typeof Notification !== "undefined" && Notification.permission === "default") {
+      Notification.requestPermission();
+    }
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const providerId = providerRef.current.id;
+    update((prev) => [...prev, { ...alert, id, providerId, createdAt: Date.now(), active: true }]);
+  }, [update]);
+
+  const removeAlert = useCallback((id: string) => {
+    update((prev) => prev.filter((a) => a.id !== id));
+  }, [update]);
+
+  const toggleAlert = useCallback((id: string) => {
+    update((prev) => prev.map((a) => (a.id === id ? { ...a, active: !a.active } : a)));
+  }, [update]);
+
+  // Only restart the monitor when the set of armed rules on this provider changes
+  const activeAlerts = useMemo(
+    () => alerts.filter((a) => a.active && a.providerId === provider.id),
+    [alerts, provider],
+  );
+  const activeKey = activeAlerts.map((a) => a.id).join(",");
+  const activeRef = useRef(activeAlerts);
+  activeRef.current = activeAlerts;
+
+  useEffect(() => {
+    if (!activeKey) return;
+    return monitorAlerts(provider, activeRef.current, (alert, price) => {
+      const message = `${describeAlert(alert)} — last ${formatPrice(price)}`;
+      update((prev) => prev.map((a) => (
+        a.id === alert.id ? { ...a, triggeredAt: Date.now(), active: a.repeat } : a
+      )));
+      onTriggerRef.current(alert, message);
+      notifyBrowser("Alert triggered", message);
+    });
+  }, [provider, activeKey, update]);
+
+  return { alerts, addAlert, removeAlert, toggleAlert };
+}
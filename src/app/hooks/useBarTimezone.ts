@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadBarTimezone, saveBarTimezone, type BarTimezone } from "../lib/timeframes";
+
+/** The timezone custom timeframe bars open in, persisted in localStorage. */
+export function useBarTimezone() {
+  const [timezone, setTimezone] = useState<BarTimezone>(0);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setTimezone(loadBarTimezone()); }, []);
+
+  const changeTimezone = useCallback((tz: BarTimezone) => {
+    setTimezone(tz);
+    saveBarTimezone(tz);
+  }, []);
+
+  return { timezone, changeTimezone };
+}
@@ -0,0 +1,120 @@
+import { useEffect, type MutableRefObject } from "react";
+import { ActionType, type Chart, type KLineData } from "klinecharts";
+import {
+  COMPARE_COLORS, clearComparison, firstVisibleTimestamp, showComparison, type CompareSeries,
+} from "../lib/compare";
+import type { DataProvider } from "../lib/providers";
+import type { BarTimezone } from "../lib/timeframes";
+
+const COMPARE_PAGE_SIZE = 1000;
+
+/**
+ * Overlays `symbols` on the chart's candle pane as percent change from the
+ * first visible bar. Each comparison loads its own history for `interval`,
+ * pages further back as the chart does, and follows its own kline stream.
+ */
+export function useComparison(
+  chartRef: MutableRefObject<Chart | null>,
+  provider: DataProvider,
+  symbols: string[],
+  interval: string,
+  /** Zone custom timeframe bars open in; the comparison history reloads when it changes. */
+  barTimezone: BarTimezone,
+  /**
+   * While the chart replays history the comparisons stop streaming, like the
+   * main feed; leaving replay reloads them live. Their lines follow the replay
+   * cursor, as they are only drawn against bars the chart shows.
+   */
+  replaying: boolean,
+) {
+  const key = symbols.join(",");
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !key) return;
+    let cancelled = false;
+    const series: CompareSeries[] = key.split(",").map((symbol, i) => ({
+      symbol,
+      color: COMPARE_COLORS[i % COMPARE_COLORS.length],
+      closes: new Map(),
+    }));
+    const earliest = new Map<string, number>();
+    const exhausted = new Set<string>();
+    const inFlight = new Set<string>();
+    let base = firstVisibleTimestamp(chart);
+
+    const redraw = () => {
+      if (!cancelled) showComparison(chart, series, base);
+    };
+    const addBars = (s: CompareSeries, bars: KLineData[]) => {
+      bars.forEach((b) => s.closes.set(b.timestamp, b.close));
+      if (bars.length > 0) earliest.set(s.symbol, Math.min(earliest.get(s.symbol) ?? Infinity, bars[0].timestamp));
+    };
+
+    // Pages older comparison bars in until they reach back as far as the chart does
+    const backfill = () => {
+      const first = chart.getDataList()[0]?.timestamp;
+      if (first === undefined) return;
+      series.forEach(async (s) => {
+        const from = earliest.get(s.symbol);
+        if (from === undefined || from <= first || exhausted.has(s.symbol) || inFlight.has(s.symbol)) return;
+        inFlight.add(s.symbol);
+        let page: KLineData[];
+        try {
+          page = await provider.getHistory(s.symbol, interval, {
+            endTime: from - 1,
+            limit: COMPARE_PAGE_SIZE,
+            timezone: barTimezone,
+          });
+        } catch {
+          // Tried again on the next scroll
+          inFlight.delete(s.symbol);
+          return;
+        }
+        inFlight.delete(s.symbol);
+        if (cancelled) return;
+        if (page.length === 0) exhausted.add(s.symbol);
+        addBars(s, page);
+        redraw();
+        backfill();
+      });
+    };
+
+    // The legend shows straight away; lines fill in as history arrives,
+    // and a symbol whose history fails to load only gets its live bars
+    redraw();
+    Promise.all(series.map(async (s) => {
+      const bars = await provider
+        .getHistory(s.symbol, interval, { limit: COMPARE_PAGE_SIZE, timezone: barTimezone })
+        .catch(() => []);
+      addBars(s, bars);
+    })).then(() => {
+      redraw();
+      backfill();
+    });
+
+    const unsubscribes = replaying ? [] : series.map((s) => provider.subscribeKline(s.symbol, interval, (bar) => {
+      if (s.closes.get(bar.timestamp) === bar.close) return;
+      s.closes.set(bar.timestamp, bar.close);
+      redraw();
+    }, barTimezone));
+
+    // Scrolling moves the base bar, and paging in older bars may need older comparison data
+    const onVisibleRange = () => {
+      const next = firstVisibleTimestamp(chart);
+      if (next !== base) {
+        base = next;
+        redraw();
+      }
+      backfill();
+    };
+    chart.subscribeAction(ActionType.OnVisibleRangeChange, onVisibleRange);
+
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach((u) => u());
+      chart.unsubscribeAction(ActionType.OnVisibleRangeChange, onVisibleRange);
+      clearComparison(chart);
+    };
+  }, [chartRef, provider, key, interval, barTimezone, replaying]);
+}
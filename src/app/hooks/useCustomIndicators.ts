@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  loadCustomIndicators, registerCustomIndicator, saveCustomIndicators,
+  type CustomIndicator,
+} from "../lib/customIndicators";
+
+function registerAll(indicators: CustomIndicator[]): CustomIndicator[] {
+  // Drop anything saved by an older build whose formula no longer compiles
+  return indicators.filter((indicator) => {
+    try {
+      registerCustomIndicator(indicator);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * User-defined formula indicators, persisted in localStorage and registered
+ * with klinecharts so they can be created like built-ins.
+ */
+export function useCustomIndicators() {
+  const [customIndicators, setCustomIndicators] = useState<CustomIndicator[]>([]);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setCustomIndicators(registerAll(loadCustomIndicators())); }, []);
+
+  const update = useCallback((fn: (prev: CustomIndicator[]) => CustomIndicator[]) => {
+    setCustomIndicators((prev) => {
+      const next = fn(prev);
+      saveCustomIndicators(next);
+      return next;
+    });
+  }, []);
+
+  /** Registers and saves the indicator; throws `FormulaError` without saving if it does not compile. */
+  const saveCustomIndicator = useCallback((indicator: Omit<CustomIndicator, "id"> & { id?: string }) => {
+    const id = indicator.id ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const saved = { ...indicator, id };
+    registerCustomIndicator(saved);
+    update((prev) => (
+      prev.some((c) => c.id === id) ? prev.map((c) => (c.id === id ? saved : c)) : [...prev, saved]
+    ));
+    return saved;
+  }, [update]);
+
+  const removeCustomIndicator = useCallback((id: string) => {
+    update((prev) => prev.filter((c) => c.id !== id));
+  }, [update]);
+
+  return { customIndicators, saveCustomIndicator, removeCustomIndicator };
+}
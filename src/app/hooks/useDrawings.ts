@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from "react";
+import type { Chart, Overlay, OverlayCreate, OverlayEvent } from "klinecharts";
+import {
+  DRAWING_GROUP, loadDrawings, saveDrawings,
+  type Drawing, type DrawingPoint,
+} from "../lib/drawings";
+
+function toDrawing(overlay: Overlay): Drawing {
+  return {
+    name: overlay.name,
+    points: overlay.points
+      .filter((p): p is DrawingPoint => p.timestamp !== undefined && p.value !== undefined)
+      .map(({ timestamp, value }) => ({ timestamp, value })),
+    lock: overlay.lock,
+    extendData: overlay.extendData,
+  };
+}
+
+/**
+ * Drawing tool state for a chart. Drawings are stored per `storageKey`
+ * (symbol + timeframe); call `restore` after new data is applied to swap in
+ * the drawings for the current key, or `detach` when it failed to load.
+ * Keyboard shortcuts apply while `active`.
+ */
+export function useDrawings(chartRef: MutableRefObject<Chart | null>, storageKey: string, active: boolean) {
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedLocked, setSelectedLocked] = useState(false);
+  const drawingsRef = useRef(new Map<string, Drawing>());
+  const latestKeyRef = useRef(storageKey);
+  latestKeyRef.current = storageKey;
+  // The key of the drawings on the chart; it only moves to the latest key in `restore`,
+  // so edits made before the new data shows can't land under the new key
+  const keyRef = useRef<string | null>(storageKey);
+  const suppressRef = useRef(false);
+  const pendingIdRef = useRef<string | null>(null);
+
+  const persist = useCallback(() => {
+    if (keyRef.current) saveDrawings(keyRef.current, Array.from(drawingsRef.current.values()));
+  }, []);
+
+  const record = useCallback((overlay: Overlay) => {
+    drawingsRef.current.set(overlay.id, toDrawing(overlay));
+    persist();
+  }, [persist]);
+
+  const editText = useCallback((overlay: Overlay) => {
+    const text = window.prompt("Note text", overlay.extendData ?? "");
+    if (text === null && overlay.extendData) return;
+    if (!text?.trim()) {
+      chartRef.current?.removeOverlay(overlay.id);
+      return;
+    }
+    chartRef.current?.overrideOverlay({ id: overlay.id, extendData: text });
+    drawingsRef.current.set(overlay.id, { ...toDrawing(overlay), extendData: text });
+    persist();
+  }, [chartRef, persist]);
+
+  const callbacks = useCallback((): Partial<OverlayCreate> => ({
+    groupId: DRAWING_GROUP,
+    onDrawEnd: ({ overlay }: OverlayEvent) => {
+      pendingIdRef.current = null;
+      setActiveTool(null);
+      record(overlay);
+      if (overlay.name === "textNote") editText(overlay);
+      return false;
+    },
+    onPressedMoveEnd: ({ overlay }: OverlayEvent) => {
+      record(overlay);
+      return false;
+    },
+    onDoubleClick: ({ overlay }: OverlayEvent) => {
+      if (overlay.name === "textNote" && !overlay.lock) editText(overlay);
+      return false;
+    },
+    onSelected: ({ overlay }: OverlayEvent) => {
+      setSelectedId(overlay.id);
+      setSelectedLocked(overlay.lock);
+      return false;
+    },
+    onDeselected: ({ overlay }: OverlayEvent) => {
+      setSelectedId((prev) => (prev === overlay.id ? null : prev));
+      return false;
+    },
+    onRemoved: ({ overlay }: OverlayEvent) => {
+      setSelectedId((prev) => (prev === overlay.id ? null : prev));
+      if (!suppressRef.current && drawingsRef.current.delete(overlay.id)) persist();
+      return false;
+    },
+  }), [record, editText, persist]);
+
+  const cancelDrawing = useCallback(() => {
+    if (pendingIdRef.current) chartRef.current?.removeOverlay(pendingIdRef.current);
+    pendingIdRef.current = null;
+    setActiveTool(null);
+  }, [chartRef]);
+
+  const startDrawing = useCallback((tool: string) => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    cancelDrawing();
+    const id = chart.createOverlay({ name: tool, ...callbacks() });
+    pendingIdRef.current = typeof id === "string" ? id : null;
+    setActiveTool(tool);
+  }, [chartRef, callbacks, cancelDrawing]);
+
+  // Takes the drawings off the chart without deleting them from storage
+  const removeAll = useCallback((chart: Chart) => {
+    suppressRef.current = true;
+    chart.removeOverlay({ groupId: DRAWING_GROUP });
+    suppressRef.current = false;
+    drawingsRef.current.clear();
+    pendingIdRef.current = null;
+    setActiveTool(null);
+    setSelectedId(null);
+  }, []);
+
+  /** Removes the drawings, and stops saving until `restore`; for a chart left without data. */
+  const detach = useCallback(() => {
+    if (chartRef.current) removeAll(chartRef.current);
+    keyRef.current = null;
+  }, [chartRef, removeAll]);
+
+  /** Replaces whatever is on the chart with the drawings saved under the current key. */
+  const restore = useCallback(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    removeAll(chart);
+    keyRef.current = latestKeyRef.current;
+    loadDrawings(keyRef.current).forEach((drawing) => {
+      const id = chart.createOverlay({ ...drawing, ...callbacks() });
+      if (typeof id === "string") drawingsRef.current.set(id, drawing);
+    });
+  }, [chartRef, callbacks, removeAll]);
+
+  const deleteSelected = useCallback(() => {
+    if (selectedId) chartRef.current?.removeOverlay(selectedId);
+  }, [chartRef, selectedId]);
+
+  const toggleLockSelected = useCallback(() => {
+    const chart = chartRef.current;
+    const overlay = selectedId ? chart?.getOverlayById(selectedId) : null;
+    if (!chart || !overlay) return;
+    const lock = !overlay.lock;
+    chart.overrideOverlay({ id: overlay.id, lock });
+    setSelectedLocked(lock);
+    drawingsRef.current.set(overlay.id, { ...toDrawing(overlay), lock });
+    persist();
+  }, [chartRef, selectedId, persist]);
+
+  const clearAll = useCallback(() => {
+    chartRef.current?.removeOverlay({ groupId: DRAWING_GROUP });
+    drawingsRef.current.clear();
+    persist();
+  }, [chartRef, persist]);
+
+  // Delete/Backspace removes the selected drawing unless focus is in a text field;
+  // only the active panel listens, so one key press never reaches every chart in the grid
+  useEffect(() => {
+    if (!active) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+      if (e.key === "Delete" || e.key === "Backspace") deleteSelected();
+      if (e.key === "Escape") cancelDrawing();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [active, deleteSelected, cancelDrawing]);
+
+  return {
+    activeTool, selectedId, selectedLocked,
+    startDrawing, cancelDrawing, restore, detach, deleteSelected, toggleLockSelected, clearAll,
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  loadIndicatorSettings, saveIndicatorSettings,
+  type IndicatorSettings, type IndicatorSettingsMap,
+} from "../lib/indicatorSettings";
+
+/**
+ * Per-user indicator settings persisted in localStorage. `settingsRef` gives
+ * chart-building code the latest values without re-running on every edit;
+ * `loaded` turns true once the saved ones are in, so it can rebuild then.
+ */
+export function useIndicatorSettings() {
+  const [settings, setSettings] = useState<IndicatorSettingsMap>({});
+  const settingsRef = useRef<IndicatorSettingsMap>({});
+  const [loaded, setLoaded] = useState(false);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => {
+    settingsRef.current = loadIndicatorSettings();
+    setSettings(settingsRef.current);
+    setLoaded(true);
+  }, []);
+
+  const commit = useCallback((next: IndicatorSettingsMap) => {
+    settingsRef.current = next;
+    setSettings(next);
+    saveIndicatorSettings(next);
+  }, []);
+
+  const updateSettings = useCallback((name: string, value: IndicatorSettings) => {
+    commit({ ...settingsRef.current, [name]: value });
+  }, [commit]);
+
+  const resetSettings = useCallback((name: string) => {
+    const { [name]: _removed, ...rest } = settingsRef.current;
+    commit(rest);
+  }, [commit]);
+
+  return { settings, settingsRef, loaded, updateSettings, resetSettings };
+}
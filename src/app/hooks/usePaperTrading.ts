@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_ACCOUNT, amendOrder, cancelOrder, closePosition, fillPrice, loadPaperAccount, matchOrders, placeOrder,
+  savePaperAccount, tradesOn,
+  type OrderDraft, type PaperAccount, type PaperOrder,
+} from "../lib/paperTrading";
+import { PROVIDERS, type DataProvider } from "../lib/providers";
+
+const FLUSH_MS = 1000;
+
+/**
+ * Simulated trading account persisted in localStorage. Resting orders are
+ * matched against the trade stream of every symbol with orders or
+ * positions, which also prices the positions; prices reach state at most
+ * once a second. Filled orders are reported through `onFill`. The account
+ * trades on one provider at a time: while another is selected, matching
+ * pauses and `pausedOn` names the account's provider.
+ */
+export function usePaperTrading(provider: DataProvider, onFill: (order: PaperOrder, price: number) => void) {
+  const [account, setAccount] = useState<PaperAccount>(DEFAULT_ACCOUNT);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const accountRef = useRef(account);
+  const pricesRef = useRef<Record<string, number>>({});
+  const onFillRef = useRef(onFill);
+  onFillRef.current = onFill;
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  const trading = tradesOn(account, provider.id);
+
+  const commit = useCallback((next: PaperAccount) => {
+    accountRef.current = next;
+    setAccount(next);
+    savePaperAccount(next);
+  }, []);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => {
+    accountRef.current = loadPaperAccount();
+    setAccount(accountRef.current);
+  }, []);
+
+  // Prices from another venue would misprice positions
+  useEffect(() => {
+    pricesRef.current = {};
+    setPrices({});
+  }, [provider]);
+
+  const watched = Array.from(new Set([
+    ...account.orders.map((o) => o.symbol),
+    ...account.positions.map((p) => p.symbol),
+  ])).sort().join(",");
+
+  useEffect(() => {
+    if (!watched || !trading) return;
+    let dirty = false;
+    const unsubscribes = watched.split(",").map((symbol) => provider.subscribeTrades(symbol, (trade) => {
+      pricesRef.current = { ...pricesRef.current, [symbol]: trade.price };
+      dirty = true;
+      const { account: next, filled } = matchOrders(accountRef.current, symbol, trade.price, trade.time);
+      if (filled.length === 0) return;
+      commit(next);
+      filled.forEach((o) => onFillRef.current(o, fillPrice(o, trade.price)));
+    }));
+    const timer = setInterval(() => {
+      if (!dirty) return;
+      dirty = false;
+      setPrices(pricesRef.current);
+    }, FLUSH_MS);
+    return () => {
+      clearInterval(timer);
+      unsubscribes.forEach((u) => u());
+    };
+  }, [provider, watched, trading, commit]);
+
+  /** Returns an error message when the order is rejected. */
+  const submitOrder = useCallback((draft: OrderDraft, marketPrice: number | undefined): string | null => {
+    const { account: next, error } = placeOrder(
+      accountRef.current, draft, pricesRef.current[draft.symbol] ?? marketPrice, providerRef.current.id,
+    );
+    if (error) return error;
+    commit(next);
+    return null;
+  }, [commit]);
+
+  const cancel = useCallback((id: string) => {
+    commit(cancelOrder(accountRef.current, id));
+  }, [commit]);
+
+  const amend = useCallback((id: string, price: number) => {
+    commit(amendOrder(accountRef.current, id, price));
+  }, [commit]);
+
+  const close = useCallback((symbol: string, marketPrice: number | undefined) => {
+    if (!tradesOn(accountRef.current, providerRef.current.id)) return;
+    const price = pricesRef.current[symbol] ?? marketPrice;
+    if (price) commit(closePosition(accountRef.current, symbol, price));
+  }, [commit]);
+
+  const reset = useCallback((balance: number) => {
+    commit({ ...DEFAULT_ACCOUNT, balance, initialBalance: balance, feePct: accountRef.current.feePct });
+  }, [commit]);
+
+  const pausedOn = trading
+    ? null
+    : PROVIDERS.find((p) => p.id === account.providerId)?.name ?? account.providerId ?? null;
+
+  return {
+    account, prices, pausedOn,
+    submitOrder, cancelOrder: cancel, amendOrder: amend, closePosition: close, resetAccount: reset,
+  };
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadPinnedTimeframes, savePinnedTimeframes } from "../lib/timeframes";
+import { intervalToMs } from "../lib/utils";
+
+/** Custom intervals pinned to the toolbar, kept shortest first and persisted in localStorage. */
+export function usePinnedTimeframes() {
+  const [pinned, setPinned] = useState<string[]>([]);
+  const pinnedRef = useRef<string[]>([]);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => {
+    pinnedRef.current = loadPinnedTimeframes();
+    setPinned(pinnedRef.current);
+  }, []);
+
+  const togglePin = useCallback((interval: string) => {
+    const current = pinnedRef.current;
+    const next = current.includes(interval)
+      ? current.filter((i) => i !== interval)
+      : [...current, interval].sort((a, b) => intervalToMs(a) - intervalToMs(b));
+    pinnedRef.current = next;
+    setPinned(next);
+    savePinnedTimeframes(next);
+  }, []);
+
+  return { pinned, togglePin };
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from "react";
+import { ActionType, type Chart, type Crosshair, type KLineData } from "klinecharts";
+import { REPLAY_SPEEDS, type ReplayStatus } from "../lib/replay";
+
+/**
+ * Bar replay over the bars currently loaded in a chart. Starting replays
+ * from the bar under the crosshair: later bars are hidden and then revealed
+ * one at a time through `updateData`, so indicators recalculate as they
+ * appear. `onStart` runs first so the caller can suspend its realtime feed;
+ * reloading the chart's data is how replay ends.
+ */
+export function useReplay(chartRef: MutableRefObject<Chart | null>, onStart: () => void) {
+  const [status, setStatus] = useState<ReplayStatus>("off");
+  const [speedIndex, setSpeedIndex] = useState(1);
+  const [position, setPosition] = useState<{ index: number; total: number; bar: KLineData | null }>({
+    index: 0, total: 0, bar: null,
+  });
+  const barsRef = useRef<KLineData[]>([]);
+  const indexRef = useRef(0);
+  const hoverIndexRef = useRef<number | null>(null);
+  const onStartRef = useRef(onStart);
+  onStartRef.current = onStart;
+
+  // Remember the hovered bar while waiting for the start point
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (status !== "picking" || !chart) return;
+    hoverIndexRef.current = null;
+    const onCrosshair = (data?: Crosshair) => { hoverIndexRef.current = data?.dataIndex ?? null; };
+    chart.subscribeAction(ActionType.OnCrosshairChange, onCrosshair);
+    return () => chart.unsubscribeAction(ActionType.OnCrosshairChange, onCrosshair);
+  }, [chartRef, status]);
+
+  const startPicking = useCallback(() => {
+    setStatus((prev) => (prev === "off" ? "picking" : prev));
+  }, []);
+
+  /** Starts from the hovered bar; ignored unless picking, or on the newest bar. */
+  const pickStart = useCallback(() => {
+    const chart = chartRef.current;
+    const index = hoverIndexRef.current;
+    if (status !== "picking" || !chart || index === null) return;
+    const bars = chart.getDataList().slice();
+    if (index >= bars.length - 1) return;
+    onStartRef.current();
+    barsRef.current = bars;
+    indexRef.current = index;
+    // No more history is paged in while replaying
+    chart.applyNewData(bars.slice(0, index + 1), false);
+    setPosition({ index, total: bars.length, bar: bars[index] });
+    setStatus("paused");
+  }, [chartRef, status]);
+
+  const step = useCallback(() => {
+    const chart = chartRef.current;
+    const bars = barsRef.current;
+    const next = indexRef.current + 1;
+    if (!chart || next >= bars.length) {
+      setStatus((prev) => (prev === "playing" ? "paused" : prev));
+      return;
+    }
+    chart.updateData(bars[next]);
+    indexRef.current = next;
+    setPosition({ index: next, total: bars.length, bar: bars[next] });
+    if (next === bars.length - 1) setStatus("paused");
+  }, [chartRef]);
+
+  useEffect(() => {
+    if (status !== "playing") return;
+    const timer = setInterval(step, REPLAY_SPEEDS[speedIndex].intervalMs);
+    return () => clearInterval(timer);
+  }, [status, speedIndex, step]);
+
+  const play = useCallback(() => {
+    setStatus((prev) => (prev === "paused" && indexRef.current < barsRef.current.length - 1 ? "playing" : prev));
+  }, []);
+
+  const pause = useCallback(() => {
+    setStatus((prev) => (prev === "playing" ? "paused" : prev));
+  }, []);
+
+  /**
+   * Swaps in a deeper copy of the replayed bars, e.g. after older history was
+   * paged in, keeping the cursor on the same bar so later ones stay hidden.
+   * Returns false when not replaying.
+   */
+  const replaceBars = useCallback((bars: KLineData[]): boolean => {
+    const chart = chartRef.current;
+    const current = barsRef.current[indexRef.current];
+    if (!chart || !current) return false;
+    const index = bars.findIndex((b) => b.timestamp === current.timestamp);
+    // Bars that no longer contain the cursor leave the replay as it was
+    if (index < 0) return true;
+    barsRef.current = bars;
+    indexRef.current = index;
+    chart.applyNewData(bars.slice(0, index + 1), false);
+    setPosition({ index, total: bars.length, bar: bars[index] });
+    return true;
+  }, [chartRef]);
+
+  /** Leaves replay without touching the chart; the caller reloads its data. */
+  const stop = useCallback(() => {
+    barsRef.current = [];
+    setStatus("off");
+  }, []);
+
+  return {
+    status, position, speedIndex, setSpeedIndex,
+    startPicking, pickStart, step, play, pause, stop, replaceBars,
+  };
+}
@@ -0,0 +1,28 @@
+import { useCallback, useRef, useState } from "react";
+
+export type ToastTone = "info" | "success" | "warning" | "error";
+
+export interface Toast {
+  id: number;
+  title: string;
+  message?: string;
+  tone: ToastTone;
+}
+
+/** A small stack of auto-dismissing in-app notifications. */
+export function useToasts(timeoutMs: number = 6000) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(1);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const pushToast = useCallback((toast: Omit<Toast, "id" | "tone"> & { tone?: ToastTone }) => {
+    const id = nextIdRef.current++;
+    setToasts((prev) => [...prev.slice(-4), { tone: "info", ...toast, id }]);
+    setTimeout(() => dismissToast(id), timeoutMs);
+  }, [dismissToast, timeoutMs]);
+
+  return { toasts, pushToast, dismissToast };
+}
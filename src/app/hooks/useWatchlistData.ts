@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+import type { DataProvider, MiniTicker } from "../lib/providers";
+
+const FLUSH_MS = 1000;
+const SPARKLINE_INTERVAL = "1h";
+const SPARKLINE_POINTS = 24;
+
+/**
+ * Live 24h tickers for the watched symbols from the all-market mini-ticker
+ * stream, plus a day of hourly closes per symbol for sparklines. Stream
+ * pushes are collected in a ref and flushed to state at most once a second.
+ */
+export function useWatchlistData(provider: DataProvider, symbols: string[]) {
+  const [tickers, setTickers] = useState<Record<string, MiniTicker>>({});
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
+  const latestRef = useRef<Map<string, MiniTicker>>(new Map());
+  const watchedRef = useRef(symbols);
+  watchedRef.current = symbols;
+  const symbolsKey = symbols.join(",");
+
+  useEffect(() => {
+    latestRef.current = new Map();
+    setTickers({});
+    let dirty = false;
+    const unsubscribe = provider.subscribeMiniTickers((updates) => {
+      updates.forEach((t) => latestRef.current.set(t.symbol, t));
+      dirty = true;
+    });
+    const flush = () => {
+      if (!dirty) return;
+      dirty = false;
+      const next: Record<string, MiniTicker> = {};
+      watchedRef.current.forEach((s) => {
+        const t = latestRef.current.get(s);
+        if (t) next[s] = t;
+      });
+      setTickers(next);
+    };
+    const timer = setInterval(flush, FLUSH_MS);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [provider]);
+
+  // Newly added symbols show their last known ticker right away
+  useEffect(() => {
+    setTickers((prev) => {
+      const next: Record<string, MiniTicker> = {};
+      symbolsKey.split(",").filter(Boolean).forEach((s) => {
+        const t = latestRef.current.get(s) ?? prev[s];
+        if (t) next[s] = t;
+      });
+      return next;
+    });
+  }, [symbolsKey]);
+
+  // Sparkline history is fetched once per symbol; the live price extends it
+  const fetchedRef = useRef<{ provider: DataProvider; symbols: Set<string> }>({ provider, symbols: new Set() });
+  useEffect(() => {
+    if (fetchedRef.current.provider !== provider) {
+      fetchedRef.current = { provider, symbols: new Set() };
+      setSparklines({});
+    }
+    const fetched = fetchedRef.current.symbols;
+    symbolsKey.split(",").filter((s) => s && !fetched.has(s)).forEach((symbol) => {
+      fetched.add(symbol);
+      provider.getHistory(symbol, SPARKLINE_INTERVAL, { limit: SPARKLINE_POINTS }).then((bars) => {
+        // Results for a provider that has since been switched away from are dropped
+        if (fetchedRef.current.provider !== provider) return;
+        setSparklines((prev) => ({ ...prev, [symbol]: bars.map((b) => b.close) }));
+      }, () => { fetched.delete(symbol); });
+    });
+  }, [provider, symbolsKey]);
+
+  return { tickers, sparklines };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_WATCHLISTS, loadWatchlists, moveItem, saveWatchlists,
+  type Watchlist, type WatchlistState,
+} from "../lib/watchlist";
+
+/** Named, user-editable symbol lists persisted in localStorage. */
+export function useWatchlists() {
+  const [state, setState] = useState<WatchlistState>(DEFAULT_WATCHLISTS);
+
+  // Loaded after mount so the server render and first client render match
+  useEffect(() => { setState(loadWatchlists()); }, []);
+
+  const update = useCallback((fn: (prev: WatchlistState) => WatchlistState) => {
+    setState((prev) => {
+      const next = fn(prev);
+      saveWatchlists(next);
+      return next;
+    });
+  }, []);
+
+  const updateActive = useCallback((fn: (list: Watchlist) => Watchlist) => {
+    update((prev) => ({
+      ...prev,
+      lists: prev.lists.map((l) => (l.id === prev.activeId ? fn(l) : l)),
+    }));
+  }, [update]);
+
+  const selectList = useCallback((id: string) => {
+    update((prev) => ({ ...prev, activeId: id }));
+  }, [update]);
+
+  const createList = useCallback((name: string) => {
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    update((prev) => ({ lists: [...prev.lists, { id, name, symbols: [] }], activeId: id }));
+  }, [update]);
+
+  const renameList = useCallback((id: string, name: string) => {
+    update((prev) => ({ ...prev, lists: prev.lists.map((l) => (l.id === id ? { ...l, name } : l)) }));
+  }, [update]);
+
+  // The last list can't be deleted, so there is always one to add symbols to
+  const deleteList = useCallback((id: string) => {
+    update((prev) => {
+      if (prev.lists.length <= 1) return prev;
+      const lists = prev.lists.filter((l) => l.id !== id);
+      return { lists, activeId: prev.activeId === id ? lists[0].id : prev.activeId };
+    });
+  }, [update]);
+
+  const addSymbol = useCallback((symbol: string) => {
+    updateActive((l) => (l.symbols.includes(symbol) ? l : { ...l, symbols: [...l.symbols, symbol] }));
+  }, [updateActive]);
+
+  const removeSymbol = useCallback((symbol: string) => {
+    updateActive((l) => ({ ...l, symbols: l.symbols.filter((s) => s !== symbol) }));
+  }, [updateActive]);
+
+  const moveSymbol = useCallback((from: number, to: number) => {
+    updateActive((l) => ({ ...l, symbols: moveItem(l.symbols, from, to) }));
+  }, [updateActive]);
+
+  const active = state.lists.find((l) => l.id === state.activeId) ?? state.lists[0];
+
+  return {
+    lists: state.lists, active,
+    selectList, createList, renameList, deleteList, addSymbol, removeSymbol, moveSymbol,
+  };
+}
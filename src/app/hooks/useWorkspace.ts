@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  decodeWorkspace, encodeWorkspace, loadLayouts, loadWorkspace, sanitizeWorkspace,
+  saveLayouts, saveWorkspace,
+  type SavedLayout, type Workspace,
+} from "../lib/workspace";
+
+/**
+ * Mirrors the dashboard's view into the URL and localStorage and manages
+ * named layouts. On mount a workspace from the URL wins over the stored one;
+ * `apply` pushes a workspace back into the dashboard's state.
+ */
+export function useWorkspace(workspace: Workspace, apply: (workspace: Workspace) => void) {
+  const [layouts, setLayouts] = useState<SavedLayout[]>([]);
+  const [activeLayoutId, setActiveLayoutId] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  // Restored after mount so the server render and first client render match
+  useEffect(() => {
+    const initial = decodeWorkspace(window.location.search) ?? loadWorkspace();
+    if (initial) applyRef.current(sanitizeWorkspace(initial, workspaceRef.current));
+    setLayouts(loadLayouts());
+    setReady(true);
+  }, []);
+
+  // Persist only once restored, so the defaults never overwrite a saved workspace
+  const query = encodeWorkspace(workspace);
+  useEffect(() => {
+    if (!ready) return;
+    saveWorkspace(workspaceRef.current);
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}?${query}`);
+  }, [ready, query]);
+
+  const update = useCallback((fn: (prev: SavedLayout[]) => SavedLayout[]) => {
+    setLayouts((prev) => {
+      const next = fn(prev);
+      saveLayouts(next);
+      return next;
+    });
+  }, []);
+
+  const createLayout = useCallback((name: string) => {
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    update((prev) => [...prev, { id, name, workspace: workspaceRef.current }]);
+    setActiveLayoutId(id);
+  }, [update]);
+
+  /** Overwrites a layout with the current view. */
+  const updateLayout = useCallback((id: string) => {
+    update((prev) => prev.map((l) => (l.id === id ? { ...l, workspace: workspaceRef.current } : l)));
+  }, [update]);
+
+  const switchLayout = useCallback((id: string) => {
+    const layout = layouts.find((l) => l.id === id);
+    if (!layout) return;
+    applyRef.current(sanitizeWorkspace(layout.workspace, workspaceRef.current));
+    setActiveLayoutId(id);
+  }, [layouts]);
+
+  const renameLayout = useCallback((id: string, name: string) => {
+    update((prev) => prev.map((l) => (l.id === id ? { ...l, name } : l)));
+  }, [update]);
+
+  const deleteLayout = useCallback((id: string) => {
+    update((prev) => prev.filter((l) => l.id !== id));
+    setActiveLayoutId((prev) => (prev === id ? null : prev));
+  }, [update]);
+
+  return {
+    layouts, activeLayoutId, shareQuery: query,
+    createLayout, updateLayout, switchLayout, renameLayout, deleteLayout,
+  };
+}
@@ -0,0 +1,192 @@
+import { registerOverlay, LineType, type KLineData, type OverlayTemplate } from "klinecharts";
+import { formatPrice, mergeKlines } from "./utils";
+import { macd, rsi } from "./indicators";
+import { loadJSON, saveJSON } from "./storage";
+import type { DataProvider, Unsubscribe } from "./providers";
+
+// ========== Types ==========
+
+export type AlertCondition =
+  | { type: "price"; direction: "up" | "down" | "any"; level: number }
+  | { type: "percentMove"; percent: number; bars: number }
+  | { type: "macdCross"; direction: "up" | "down" | "any" }
+  | { type: "rsi"; direction: "above" | "below"; threshold: number; period: number };
+
+export interface AlertRule {
+  id: string;
+  /** Provider the rule was created on; it is only checked against that provider's prices. */
+  providerId: string;
+  symbol: string;
+  pair: string;
+  interval: string;
+  condition: AlertCondition;
+  /** Keep the alert armed after it fires instead of disabling it. */
+  repeat: boolean;
+  active: boolean;
+  createdAt: number;
+  triggeredAt?: number;
+}
+
+export const ALERT_GROUP = "alerts";
+
+const ALERTS_KEY = "alerts";
+// Rules saved before they recorded a provider are taken to be on Binance, the default venue
+const LEGACY_PROVIDER_ID = "binance";
+const HISTORY_BARS = 200;
+const MAX_BARS = 500;
+
+// ========== Evaluation ==========
+
+/** Current truth of the alert's condition, or null while there is not enough data. */
+function conditionState(condition: AlertCondition, bars: KLineData[]): boolean | null {
+  const last = bars[bars.length - 1];
+  if (!last) return null;
+  const closes = bars.map((b) => b.close);
+  const i = closes.length - 1;
+  switch (condition.type) {
+    case "price":
+      return condition.direction === "down" ? last.close <= condition.level : last.close >= condition.level;
+    case "percentMove": {
+      if (i < condition.bars) return null;
+      // Measured from the window's extremes, so a move that has since partly reversed still counts
+      const window = bars.slice(i - condition.bars);
+      const low = Math.min(...window.map((b) => b.low));
+      const high = Math.max(...window.map((b) => b.high));
+      const rise = low > 0 ? ((last.close - low) / low) * 100 : 0;
+      const fall = high > 0 ? ((high - last.close) / high) * 100 : 0;
+      return Math.max(rise, fall) >= condition.percent;
+    }
+    case "macdCross": {
+      const m = macd(closes);
+      if (Number.isNaN(m.signal[i])) return null;
+      return condition.direction === "down" ? m.macd[i] < m.signal[i] : m.macd[i] > m.signal[i];
+    }
+    case "rsi": {
+      const value = rsi(closes, condition.period)[i];
+      if (Number.isNaN(value)) return null;
+      return condition.direction === "above" ? value > condition.threshold : value < condition.threshold;
+    }
+  }
+}
+
+/** Alerts fire on the edge where their condition becomes true; "any" crosses fire both ways. */
+function shouldFire(condition: AlertCondition, prev: boolean | null, next: boolean | null): boolean {
+  if (prev === null || next === null || prev === next) return false;
+  const bothWays = (condition.type === "price" || condition.type === "macdCross") && condition.direction === "any";
+  return next || bothWays;
+}
+
+export function describeAlert(alert: AlertRule): string {
+  const c = alert.condition;
+  switch (c.type) {
+    case "price":
+      return `${alert.pair} ${c.direction === "up" ? "crosses above" : c.direction === "down" ? "crosses below" : "crosses"} ${formatPrice(c.level)}`;
+    case "percentMove":
+      return `${alert.pair} moves ${c.percent}% within ${c.bars} bars (${alert.interval})`;
+    case "macdCross":
+      return `${alert.pair} MACD ${c.direction === "up" ? "crosses above" : c.direction === "down" ? "crosses below" : "crosses"} signal (${alert.interval})`;
+    case "rsi":
+      return `${alert.pair} RSI(${c.period}) ${c.direction} ${c.threshold} (${alert.interval})`;
+  }
+}
+
+/**
+ * Streams klines for every symbol/interval with an active alert on `provider`
+ * and calls `onTrigger` when an alert's condition turns true on the live data.
+ * Rules made on other providers are left alone.
+ */
+export function monitorAlerts(
+  provider: DataProvider,
+  alerts: AlertRule[],
+  onTrigger: (alert: AlertRule, price: number) => void,
+): Unsubscribe {
+  const groups = new Map<string, AlertRule[]>();
+  alerts.filter((a) => a.active && a.providerId === provider.id).forEach((a) => {
+    const key = `${a.symbol}:${a.interval}`;
+    groups.set(key, [...(groups.get(key) ?? []), a]);
+  });
+
+  const unsubscribes = Array.from(groups.values()).map((group) => {
+    const { symbol, interval } = group[0];
+    const states = new Map<string, boolean | null>();
+    const fired = new Set<string>();
+    let bars: KLineData[] = [];
+    let closed = false;
+
+    const evaluate = (initial: boolean) => {
+      group.forEach((alert) => {
+        if (fired.has(alert.id)) return;
+        const next = conditionState(alert.condition, bars);
+        const prev = states.get(alert.id) ?? null;
+        states.set(alert.id, next);
+        if (initial || !shouldFire(alert.condition, prev, next)) return;
+        if (!alert.repeat) fired.add(alert.id);
+        onTrigger(alert, bars[bars.length - 1].close);
+      });
+    };
+
+    provider.getHistory(symbol, interval, { limit: HISTORY_BARS }).then((history) => {
+      if (closed) return;
+      bars = mergeKlines(history, bars).slice(-MAX_BARS);
+      evaluate(true);
+    }, () => {
+      // Without history the group starts from the live bars alone
+    });
+
+    const unsubscribe = provider.subscribeKline(symbol, interval, (bar) => {
+      const last = bars[bars.length - 1];
+      if (last && bar.timestamp < last.timestamp) return;
+      if (last?.timestamp === bar.timestamp) bars[bars.length - 1] = bar;
+      else bars = [...bars, bar].slice(-MAX_BARS);
+      evaluate(false);
+    });
+
+    return () => {
+      closed = true;
+      unsubscribe();
+    };
+  });
+
+  return () => unsubscribes.forEach((u) => u());
+}
+
+// ========== Chart Line ==========
+
+const alertLine: OverlayTemplate = {
+  name: "alertLine",
+  totalStep: 2,
+  lock: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ overlay, coordinates, bounding }) => {
+    const y = coordinates[0].y;
+    return [
+      {
+        type: "line",
+        attrs: { coordinates: [{ x: 0, y }, { x: bounding.width, y }] },
+        styles: { style: LineType.Dashed, color: "#f0b90b", dashedValue: [4, 4] },
+        ignoreEvent: true,
+      },
+      {
+        type: "text",
+        attrs: { x: bounding.width - 4, y, text: overlay.extendData ?? "", align: "right", baseline: "bottom" },
+        styles: { color: "#f0b90b", backgroundColor: "transparent", size: 11 },
+        ignoreEvent: true,
+      },
+    ];
+  },
+};
+
+/** Registers the horizontal line used to show price alerts on the chart. */
+export function registerAlertOverlay(): void {
+  registerOverlay(alertLine);
+}
+
+// ========== Persistence ==========
+
+export function loadAlerts(): AlertRule[] {
+  return loadJSON<AlertRule[]>(ALERTS_KEY, []).map((a) => ({ ...a, providerId: a.providerId ?? LEGACY_PROVIDER_ID }));
+}
+
+export function saveAlerts(alerts: AlertRule[]): void {
+  saveJSON(ALERTS_KEY, alerts);
+}
@@ -0,0 +1,412 @@
+import {
+  registerIndicator, registerOverlay, IndicatorSeries, PolygonType,
+  type Chart, type KLineData, type OverlayTemplate,
+} from "klinecharts";
+import { intervalToMs, mergeKlines } from "./utils";
+import { crossOver, crossUnder, ema, macd, rsi, sma } from "./indicators";
+import { loadJSON, saveJSON } from "./storage";
+import type { DataProvider } from "./providers";
+import type { BarTimezone } from "./timeframes";
+
+// ========== Types ==========
+
+/**
+ * One rule of a strategy. Crosses are true only on the bar where the cross
+ * happens; `rsi` is true on every bar beyond the threshold.
+ */
+export type RuleCondition =
+  | { type: "maCross"; kind: "sma" | "ema"; fast: number; slow: number; direction: "above" | "below" }
+  | { type: "priceMa"; kind: "sma" | "ema"; period: number; direction: "above" | "below" }
+  | { type: "macdCross"; direction: "above" | "below" }
+  | { type: "rsi"; period: number; direction: "above" | "below"; threshold: number };
+
+export type RuleType = RuleCondition["type"];
+
+export interface StrategyConfig {
+  side: "long" | "short";
+  /** All entry rules must hold on the same bar. */
+  entry: RuleCondition[];
+  /** Any exit rule closes the position. */
+  exit: RuleCondition[];
+  sizing: { type: "percent" | "fixed"; value: number };
+  initialCapital: number;
+  /** Charged on each fill, in % of notional. */
+  feePct: number;
+  slippagePct: number;
+  stopLossPct: number | null;
+  takeProfitPct: number | null;
+}
+
+export type ExitReason = "signal" | "stop" | "target" | "end";
+
+export interface BacktestTrade {
+  side: "long" | "short";
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  qty: number;
+  fees: number;
+  /** Net of fees. */
+  pnl: number;
+  returnPct: number;
+  exitReason: ExitReason;
+}
+
+export interface BacktestMetrics {
+  netPnl: number;
+  netPnlPct: number;
+  trades: number;
+  winRate: number;
+  /** Largest peak-to-trough fall of the equity curve, in %. */
+  maxDrawdownPct: number;
+  /** Annualised from per-bar equity returns. */
+  sharpe: number;
+  /** Gross profit over gross loss; Infinity with no losing trades. */
+  profitFactor: number;
+  fees: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equity: { timestamp: number; value: number }[];
+  metrics: BacktestMetrics;
+  bars: number;
+}
+
+export const RULE_TEMPLATES: Record<RuleType, { label: string; rule: RuleCondition }> = {
+  maCross: { label: "MA cross", rule: { type: "maCross", kind: "ema", fast: 12, slow: 26, direction: "above" } },
+  priceMa: { label: "Price crosses MA", rule: { type: "priceMa", kind: "sma", period: 50, direction: "above" } },
+  macdCross: { label: "MACD signal cross", rule: { type: "macdCross", direction: "above" } },
+  rsi: { label: "RSI level", rule: { type: "rsi", period: 14, direction: "below", threshold: 30 } },
+};
+
+export const DEFAULT_STRATEGY: StrategyConfig = {
+  side: "long",
+  entry: [RULE_TEMPLATES.maCross.rule],
+  exit: [{ type: "maCross", kind: "ema", fast: 12, slow: 26, direction: "below" }],
+  sizing: { type: "percent", value: 100 },
+  initialCapital: 10000,
+  feePct: 0.1,
+  slippagePct: 0.05,
+  stopLossPct: null,
+  takeProfitPct: null,
+};
+
+/** Bars to test: 0 uses what the chart has loaded, larger values page in older history first. */
+export const HISTORY_DEPTHS = [0, 1000, 2000, 5000];
+
+// ========== Signals ==========
+
+const movingAverage = (kind: "sma" | "ema", values: number[], period: number) =>
+  kind === "ema" ? ema(values, period) : sma(values, period);
+
+/** Per-bar truth of a rule over the closes. */
+export function ruleSignals(rule: RuleCondition, closes: number[]): boolean[] {
+  const cross = (a: number[], b: number[], direction: "above" | "below") =>
+    closes.map((_, i) => (direction === "above" ? crossOver(a, b, i) : crossUnder(a, b, i)));
+  switch (rule.type) {
+    case "maCross":
+      return cross(movingAverage(rule.kind, closes, rule.fast), movingAverage(rule.kind, closes, rule.slow), rule.direction);
+    case "priceMa":
+      return cross(closes, movingAverage(rule.kind, closes, rule.period), rule.direction);
+    case "macdCross": {
+      const m = macd(closes);
+      return cross(m.macd, m.signal, rule.direction);
+    }
+    case "rsi":
+      return rsi(closes, rule.period).map((v) => (rule.direction === "above" ? v > rule.threshold : v < rule.threshold));
+  }
+}
+
+export function describeRule(rule: RuleCondition): string {
+  const dir = rule.direction === "above" ? "above" : "below";
+  switch (rule.type) {
+    case "maCross":
+      return `${rule.kind.toUpperCase()}(${rule.fast}) crosses ${dir} ${rule.kind.toUpperCase()}(${rule.slow})`;
+    case "priceMa":
+      return `Close crosses ${dir} ${rule.kind.toUpperCase()}(${rule.period})`;
+    case "macdCross":
+      return `MACD crosses ${dir} signal`;
+    case "rsi":
+      return `RSI(${rule.period}) ${dir} ${rule.threshold}`;
+  }
+}
+
+// ========== Engine ==========
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+interface OpenPosition {
+  entryTime: number;
+  entryPrice: number;
+  qty: number;
+  entryFee: number;
+}
+
+/**
+ * Simulates the strategy bar by bar. Rules are evaluated on closed bars and
+ * filled at the next bar's open; stops and targets are checked against each
+ * bar's range (stop first when both are hit), filling at the level or at the
+ * open when the bar gaps through it.
+ */
+export function runBacktest(bars: KLineData[], config: StrategyConfig, interval: string): BacktestResult {
+  const closes = bars.map((b) => b.close);
+  const all = (rules: RuleCondition[]) => {
+    const signals = rules.map((r) => ruleSignals(r, closes));
+    return closes.map((_, i) => signals.length > 0 && signals.every((s) => s[i]));
+  };
+  const any = (rules: RuleCondition[]) => {
+    const signals = rules.map((r) => ruleSignals(r, closes));
+    return closes.map((_, i) => signals.some((s) => s[i]));
+  };
+  const entrySignal = all(config.entry);
+  const exitSignal = any(config.exit);
+
+  const dir = config.side === "long" ? 1 : -1;
+  const fee = config.feePct / 100;
+  const slip = config.slippagePct / 100;
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let pendingEntry = false;
+  let pendingExit = false;
+  const trades: BacktestTrade[] = [];
+  const equity: BacktestResult["equity"] = [];
+
+  const markToMarket = (price: number) => (position ? cash + dir * position.qty * price : cash);
+
+  const open = (bar: KLineData) => {
+    const price = bar.open * (1 + dir * slip);
+    const equityNow = markToMarket(bar.open);
+    const notional = config.sizing.type === "percent" ? (equityNow * config.sizing.value) / 100 : config.sizing.value;
+    const qty = notional / (price * (1 + fee));
+    if (!(qty > 0)) return;
+    const entryFee = qty * price * fee;
+    cash -= dir * qty * price + entryFee;
+    position = { entryTime: bar.timestamp, entryPrice: price, qty, entryFee };
+  };
+
+  const close = (pos: OpenPosition, bar: KLineData, level: number, exitReason: ExitReason) => {
+    const price = level * (1 - dir * slip);
+    const exitFee = pos.qty * price * fee;
+    cash += dir * pos.qty * price - exitFee;
+    const fees = pos.entryFee + exitFee;
+    const pnl = dir * pos.qty * (price - pos.entryPrice) - fees;
+    trades.push({
+      side: config.side,
+      entryTime: pos.entryTime,
+      entryPrice: pos.entryPrice,
+      exitTime: bar.timestamp,
+      exitPrice: price,
+      qty: pos.qty,
+      fees,
+      pnl,
+      returnPct: (pnl / (pos.qty * pos.entryPrice)) * 100,
+      exitReason,
+    });
+    position = null;
+  };
+
+  bars.forEach((bar, i) => {
+    if (pendingExit && position) close(position, bar, bar.open, "signal");
+    else if (pendingEntry && !position) open(bar);
+    pendingEntry = false;
+    pendingExit = false;
+
+    const pos = position as OpenPosition | null;
+    if (pos) {
+      const stop = config.stopLossPct ? pos.entryPrice * (1 - (dir * config.stopLossPct) / 100) : null;
+      const target = config.takeProfitPct ? pos.entryPrice * (1 + (dir * config.takeProfitPct) / 100) : null;
+      const adverse = dir > 0 ? bar.low : bar.high;
+      const favourable = dir > 0 ? bar.high : bar.low;
+      // Past the level at the open means the fill is the open, not the level
+      const worse = (a: number, b: number) => (dir > 0 ? Math.min(a, b) : Math.max(a, b));
+      const better = (a: number, b: number) => (dir > 0 ? Math.max(a, b) : Math.min(a, b));
+      if (stop !== null && dir * (adverse - stop) <= 0) close(pos, bar, worse(bar.open, stop), "stop");
+      else if (target !== null && dir * (favourable - target) >= 0) close(pos, bar, better(bar.open, target), "target");
+    }
+
+    if (position) pendingExit = exitSignal[i];
+    else pendingEntry = entrySignal[i];
+    equity.push({ timestamp: bar.timestamp, value: markToMarket(bar.close) });
+  });
+
+  const last = bars[bars.length - 1];
+  if (position && last) {
+    close(position, last, last.close, "end");
+    equity[equity.length - 1].value = cash;
+  }
+
+  return { trades, equity, metrics: computeMetrics(trades, equity, config.initialCapital, interval), bars: bars.length };
+}
+
+function computeMetrics(
+  trades: BacktestTrade[],
+  equity: BacktestResult["equity"],
+  initialCapital: number,
+  interval: string,
+): BacktestMetrics {
+  const finalEquity = equity[equity.length - 1]?.value ?? initialCapital;
+  const wins = trades.filter((t) => t.pnl > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = -trades.filter((t) => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0);
+
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  equity.forEach(({ value }) => {
+    peak = Math.max(peak, value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  });
+
+  const returns = equity.slice(1).map((e, i) => (equity[i].value > 0 ? e.value / equity[i].value - 1 : 0));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(returns.length - 1, 1);
+  const std = Math.sqrt(variance);
+  const barsPerYear = YEAR_MS / intervalToMs(interval);
+
+  return {
+    netPnl: finalEquity - initialCapital,
+    netPnlPct: ((finalEquity - initialCapital) / initialCapital) * 100,
+    trades: trades.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    maxDrawdownPct: maxDrawdown * 100,
+    sharpe: std > 0 ? (mean / std) * Math.sqrt(barsPerYear) : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    fees: trades.reduce((sum, t) => sum + t.fees, 0),
+  };
+}
+
+// ========== History ==========
+
+const HISTORY_PAGE = 1000;
+
+/** Deepens a chart's history to at least `minBars` candles and returns the bars it then shows. */
+export type HistoryExtender = (minBars: number) => Promise<KLineData[]>;
+
+/**
+ * Pages older bars in front of `bars` until there are at least `minBars`
+ * or the listing date is reached. Resampled bars open in `timezone`.
+ */
+export async function extendHistory(
+  provider: DataProvider,
+  symbol: string,
+  interval: string,
+  timezone: BarTimezone,
+  bars: KLineData[],
+  minBars: number,
+): Promise<KLineData[]> {
+  let data = bars;
+  while (data.length > 0 && data.length < minBars) {
+    const page = await provider.getHistory(symbol, interval, {
+      endTime: data[0].timestamp - 1,
+      limit: HISTORY_PAGE,
+      timezone,
+    });
+    const older = page.filter((d) => d.timestamp < data[0].timestamp);
+    if (older.length === 0) break;
+    data = mergeKlines(older, data);
+  }
+  return data;
+}
+
+// ========== Chart ==========
+
+export const BACKTEST_GROUP = "backtest";
+export const BACKTEST_EQUITY = "BACKTEST_EQUITY";
+const BACKTEST_PANE = "backtest_pane";
+
+interface TradeMarker {
+  action: "buy" | "sell";
+  label: string;
+}
+
+/** Arrow under the bar for buys and over it for sells, with a short label. */
+const tradeMarker: OverlayTemplate = {
+  name: "tradeMarker",
+  totalStep: 2,
+  lock: true,
+  createPointFigures: ({ overlay, coordinates }) => {
+    const { action, label } = overlay.extendData as TradeMarker;
+    const { x, y } = coordinates[0];
+    const buy = action === "buy";
+    const color = buy ? "#0ecb81" : "#f6465d";
+    const tip = buy ? y + 4 : y - 4;
+    const base = buy ? tip + 8 : tip - 8;
+    return [
+      {
+        type: "polygon",
+        attrs: { coordinates: [{ x, y: tip }, { x: x - 5, y: base }, { x: x + 5, y: base }] },
+        styles: { style: PolygonType.Fill, color },
+        ignoreEvent: true,
+      },
+      {
+        type: "text",
+        attrs: { x, y: buy ? base + 2 : base - 2, text: label, align: "center", baseline: buy ? "top" : "bottom" },
+        styles: { color, backgroundColor: "transparent", size: 10 },
+        ignoreEvent: true,
+      },
+    ];
+  },
+};
+
+/** Registers the trade marker overlay and the equity curve indicator. */
+export function registerBacktestTemplates(): void {
+  registerOverlay(tradeMarker);
+  registerIndicator<{ equity?: number }>({
+    name: BACKTEST_EQUITY,
+    shortName: "Equity",
+    series: IndicatorSeries.Normal,
+    precision: 2,
+    figures: [{ key: "equity", title: "Equity: ", type: "line" }],
+    // The curve comes from the last run, keyed by bar timestamp
+    calc: (dataList, indicator) => {
+      const byTime = (indicator.extendData ?? {}) as Record<number, number>;
+      return dataList.map((d) => ({ equity: byTime[d.timestamp] }));
+    },
+  });
+}
+
+export function clearBacktest(chart: Chart): void {
+  chart.removeOverlay({ groupId: BACKTEST_GROUP });
+  chart.removeIndicator(BACKTEST_PANE, BACKTEST_EQUITY);
+}
+
+export const EXIT_LABELS: Record<ExitReason, string> = { signal: "Exit", stop: "Stop", target: "TP", end: "End" };
+
+/** Draws entry/exit markers at the bars' extremes and the equity curve in its own pane. */
+export function showBacktest(chart: Chart, result: BacktestResult): void {
+  clearBacktest(chart);
+  const barsByTime = new Map(chart.getDataList().map((b) => [b.timestamp, b]));
+  const mark = (timestamp: number, action: TradeMarker["action"], label: string) => {
+    const bar = barsByTime.get(timestamp);
+    if (!bar) return;
+    chart.createOverlay({
+      name: "tradeMarker",
+      groupId: BACKTEST_GROUP,
+      points: [{ timestamp, value: action === "buy" ? bar.low : bar.high }],
+      extendData: { action, label } satisfies TradeMarker,
+    });
+  };
+  result.trades.forEach((t) => {
+    const long = t.side === "long";
+    mark(t.entryTime, long ? "buy" : "sell", long ? "Buy" : "Short");
+    mark(t.exitTime, long ? "sell" : "buy", EXIT_LABELS[t.exitReason]);
+  });
+  chart.createIndicator(
+    { name: BACKTEST_EQUITY, extendData: Object.fromEntries(result.equity.map((e) => [e.timestamp, e.value])) },
+    false,
+    { id: BACKTEST_PANE },
+  );
+}
+
+// ========== Persistence ==========
+
+const STRATEGY_KEY = "backtestStrategy";
+
+export function loadStrategy(): StrategyConfig {
+  return { ...DEFAULT_STRATEGY, ...loadJSON<Partial<StrategyConfig>>(STRATEGY_KEY, {}) };
+}
+
+export function saveStrategy(config: StrategyConfig): void {
+  saveJSON(STRATEGY_KEY, config);
+}
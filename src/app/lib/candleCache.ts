@@ -0,0 +1,110 @@
+import type { KLineData } from "klinecharts";
+import { mergeKlines } from "./utils";
+import { CANDLES_STORE, openDatabase, requestResult, writeTransaction } from "./storage";
+import { needsResampling, type BarTimezone } from "./timeframes";
+import type { DataProvider } from "./providers";
+
+// ========== Storage ==========
+// Candles are kept in IndexedDB rather than localStorage: a few thousand bars
+// per symbol and timeframe would exhaust localStorage's quota in no time.
+
+/** Newest bars kept per symbol and timeframe. */
+const MAX_BARS = 2000;
+/** Symbol/timeframes kept; the least recently opened are evicted first. */
+const MAX_ENTRIES = 50;
+
+// [timestamp, open, high, low, close, volume, turnover]; a third of the size of the objects
+type StoredBar = [number, number, number, number, number, number, number];
+
+interface CacheEntry {
+  key: string;
+  bars: StoredBar[];
+  openedAt: number;
+}
+
+const toStored = (b: KLineData): StoredBar =>
+  [b.timestamp, b.open, b.high, b.low, b.close, b.volume ?? 0, b.turnover ?? 0];
+const fromStored = ([timestamp, open, high, low, close, volume, turnover]: StoredBar): KLineData =>
+  ({ timestamp, open, high, low, close, volume, turnover });
+
+// Resampled bars depend on the bar timezone, so each one is cached separately
+export function candleCacheKey(providerId: string, symbol: string, interval: string, timezone: BarTimezone): string {
+  const zone = needsResampling(interval) ? `:${timezone}` : "";
+  return `${providerId}:${symbol}:${interval}${zone}`;
+}
+
+export async function readCandles(key: string): Promise<KLineData[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const entry = await requestResult<CacheEntry | undefined>(
+      db.transaction(CANDLES_STORE).objectStore(CANDLES_STORE).get(key),
+    );
+    return entry ? entry.bars.map(fromStored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Stores the newest bars under `key` and evicts the least recently opened entries beyond the limit. */
+export async function writeCandles(key: string, bars: KLineData[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db || bars.length === 0) return;
+  try {
+    const entry: CacheEntry = { key, bars: bars.slice(-MAX_BARS).map(toStored), openedAt: Date.now() };
+    await writeTransaction(db, CANDLES_STORE, (store) => store.put(entry));
+
+    const store = db.transaction(CANDLES_STORE, "readwrite").objectStore(CANDLES_STORE);
+    let excess = (await requestResult(store.count())) - MAX_ENTRIES;
+    if (excess <= 0) return;
+    const cursor = store.index("openedAt").openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result || excess-- <= 0) return;
+      cursor.result.delete();
+      cursor.result.continue();
+    };
+  } catch {
+    // A full or unavailable store only costs the cache
+  }
+}
+
+// ========== Loading ==========
+
+const TAIL_LIMIT = 1000;
+
+/**
+ * The latest `limit` bars, served from the cache first where the provider
+ * allows it: `onCached` gets any cached bars straight away, then only the bars
+ * from the last cached one onwards are fetched and merged in. A tail that
+ * fills a whole page may have left a gap, so the cache is replaced by a fresh
+ * page instead. Resampled bars open in `timezone`. Failures reject with the
+ * provider's error; cached bars were already handed over by then. Nothing is
+ * cached once `isCurrent` reports that a newer load has taken over.
+ */
+export async function loadHistory(
+  provider: DataProvider,
+  symbol: string,
+  interval: string,
+  timezone: BarTimezone,
+  limit: number,
+  onCached: (bars: KLineData[]) => void,
+  isCurrent: () => boolean = () => true,
+): Promise<KLineData[]> {
+  if (!provider.cacheHistory) return provider.getHistory(symbol, interval, { limit, timezone });
+  const key = candleCacheKey(provider.id, symbol, interval, timezone);
+  const cached = await readCandles(key);
+  let bars: KLineData[] | null = null;
+  if (cached.length > 0) {
+    onCached(cached);
+    // The last cached bar may have still been forming, so it is fetched again
+    const tail = await provider.getHistory(symbol, interval, {
+      startTime: cached[cached.length - 1].timestamp,
+      limit: TAIL_LIMIT,
+      timezone,
+    });
+    if (tail.length < TAIL_LIMIT) bars = mergeKlines(cached, tail);
+  }
+  bars ??= await provider.getHistory(symbol, interval, { limit, timezone });
+  if (isCurrent()) writeCandles(key, bars);
+  return bars;
+}
@@ -0,0 +1,32 @@
+// ========== Crosshair Sync ==========
+
+/** A crosshair position in data space; `value` is only set when hovering the price pane. */
+export interface CrosshairPoint {
+  timestamp: number;
+  value?: number;
+}
+
+export type CrosshairListener = (sourceId: string, symbol: string, point: CrosshairPoint | null) => void;
+
+export interface CrosshairSync {
+  /** Broadcasts a panel's crosshair; `null` means the pointer left the panel. */
+  publish: (sourceId: string, symbol: string, point: CrosshairPoint | null) => void;
+  subscribe: (listener: CrosshairListener) => () => void;
+}
+
+/**
+ * Lets chart panels mirror each other's crosshair. Positions travel as
+ * timestamp + price so panels on different timeframes line up by time.
+ */
+export function createCrosshairSync(): CrosshairSync {
+  const listeners = new Set<CrosshairListener>();
+  return {
+    publish: (sourceId, symbol, point) => {
+      listeners.forEach((listener) => listener(sourceId, symbol, point));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
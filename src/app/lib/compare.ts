@@ -0,0 +1,124 @@
+import {
+  registerIndicator, IndicatorSeries, YAxisType,
+  type Chart, type IndicatorFigure, type KLineData,
+} from "klinecharts";
+
+// ========== Types ==========
+
+/** Closes of one comparison symbol keyed by bar open time. */
+export interface CompareSeries {
+  symbol: string;
+  color: string;
+  closes: Map<number, number>;
+}
+
+interface CompareData {
+  series: CompareSeries[];
+  /** Bar the lines are rebased to; the first visible bar, like the percentage axis. */
+  baseTimestamp: number | null;
+}
+
+export const COMPARE_INDICATOR = "COMPARE";
+
+export const COMPARE_COLORS = ["#f0b90b", "#1677ff", "#e11d74", "#a855f7", "#22d3ee", "#fb923c"];
+
+export const MAX_COMPARE = COMPARE_COLORS.length;
+
+// ========== Rebasing ==========
+
+const pctKey = (symbol: string) => `${symbol}%`;
+
+/**
+ * Plots each comparison in the main symbol's price space, scaled so both
+ * start at the base bar's close. On the percentage axis the lines then read
+ * as percent change from that bar.
+ */
+function rebase(dataList: KLineData[], { series, baseTimestamp }: CompareData): Array<Record<string, number | undefined>> {
+  const found = baseTimestamp === null ? -1 : dataList.findIndex((d) => d.timestamp >= baseTimestamp);
+  const baseIndex = Math.max(0, found);
+  const mainBase = dataList[baseIndex]?.close;
+  // A comparison that starts later than the base bar rebases to its own first close
+  const compareBases = series.map((s) => {
+    for (let i = baseIndex; i < dataList.length; i++) {
+      const close = s.closes.get(dataList[i].timestamp);
+      if (close !== undefined) return close;
+    }
+    return undefined;
+  });
+  return dataList.map((d) => {
+    const row: Record<string, number | undefined> = {};
+    series.forEach((s, i) => {
+      const close = s.closes.get(d.timestamp);
+      const base = compareBases[i];
+      if (close === undefined || !base || !mainBase) return;
+      row[s.symbol] = (mainBase * close) / base;
+      row[pctKey(s.symbol)] = (close / base - 1) * 100;
+    });
+    return row;
+  });
+}
+
+/** Registers the comparison overlay; its lines and legend come from `extendData`. */
+export function registerCompareIndicator(): void {
+  registerIndicator({
+    name: COMPARE_INDICATOR,
+    shortName: "Compare",
+    series: IndicatorSeries.Price,
+    figures: [],
+    calc: (dataList, indicator) => rebase(dataList, (indicator.extendData ?? { series: [], baseTimestamp: null }) as CompareData),
+    // The legend shows percent change at the crosshair rather than the rebased prices
+    createTooltipDataSource: ({ indicator, crosshair }) => {
+      const { series } = (indicator.extendData ?? { series: [] }) as CompareData;
+      const row = indicator.result[crosshair.dataIndex ?? indicator.result.length - 1] as Record<string, number | undefined> | undefined;
+      return {
+        name: "",
+        calcParamsText: "",
+        icons: [],
+        values: series.map((s) => {
+          const pct = row?.[pctKey(s.symbol)];
+          return {
+            title: { text: `${s.symbol} `, color: s.color },
+            value: { text: pct === undefined ? "n/a" : `${pct >= 0 ? "+" : ""}${pct.toFixed(2)}%`, color: s.color },
+          };
+        }),
+      };
+    },
+  });
+}
+
+// ========== Chart ==========
+
+function figuresFor(series: CompareSeries[]): IndicatorFigure[] {
+  return series.map((s) => ({
+    key: s.symbol,
+    title: `${s.symbol}: `,
+    type: "line",
+    styles: () => ({ color: s.color, size: 1.5 }),
+  }));
+}
+
+/** Creates or updates the comparison lines on the candle pane. */
+export function showComparison(chart: Chart, series: CompareSeries[], baseTimestamp: number | null): void {
+  const data: CompareData = { series, baseTimestamp };
+  const existing = chart.getIndicatorByPaneId("candle_pane", COMPARE_INDICATOR);
+  if (existing) {
+    chart.overrideIndicator({ name: COMPARE_INDICATOR, figures: figuresFor(series), extendData: data }, "candle_pane");
+  } else {
+    chart.createIndicator({ name: COMPARE_INDICATOR, figures: figuresFor(series), extendData: data }, true, { id: "candle_pane" });
+  }
+}
+
+export function clearComparison(chart: Chart): void {
+  chart.removeIndicator("candle_pane", COMPARE_INDICATOR);
+}
+
+export function setPercentAxis(chart: Chart, percent: boolean): void {
+  chart.setStyles({ yAxis: { type: percent ? YAxisType.Percentage : YAxisType.Normal } });
+}
+
+/** Timestamp of the first bar on screen, which both the axis and the lines rebase to. */
+export function firstVisibleTimestamp(chart: Chart): number | null {
+  const dataList = chart.getDataList();
+  const { from } = chart.getVisibleRange();
+  return dataList[Math.max(0, from)]?.timestamp ?? null;
+}
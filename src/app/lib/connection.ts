@@ -0,0 +1,159 @@
+import type { Unsubscribe } from "./providers/types";
+
+// ========== Stream Connection ==========
+
+/** "offline" is reported by providers with no realtime feed at all. */
+export type ConnectionStatus = "connecting" | "live" | "reconnecting" | "stale" | "offline";
+
+export interface StreamConnectionOptions {
+  /** Silence after which the connection is reported stale; twice this forces a reconnect. */
+  staleAfterMs?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+interface StreamHandler {
+  onMessage: (data: any) => void;
+  onReconnect?: () => void;
+}
+
+export interface StreamConnection {
+  subscribe: (stream: string, onMessage: (data: any) => void, onReconnect?: () => void) => Unsubscribe;
+  subscribeStatus: (listener: (status: ConnectionStatus) => void) => Unsubscribe;
+}
+
+/**
+ * Multiplexes named streams over one combined WebSocket (`<url>/stream`).
+ * The socket opens with the first subscription, closes with the last, and
+ * reconnects with exponential backoff whenever it drops or goes silent.
+ * Handlers get `onReconnect` after a successful reconnect so they can
+ * backfill whatever they missed.
+ */
+export function createStreamConnection(
+  url: string,
+  { staleAfterMs = 10000, baseBackoffMs = 1000, maxBackoffMs = 30000 }: StreamConnectionOptions = {},
+): StreamConnection {
+  const streams = new Map<string, Set<StreamHandler>>();
+  const statusListeners = new Set<(status: ConnectionStatus) => void>();
+  let ws: WebSocket | null = null;
+  let status: ConnectionStatus = "connecting";
+  let attempt = 0;
+  let hasConnected = false;
+  let requestId = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((l) => l(next));
+  };
+
+  const send = (method: "SUBSCRIBE" | "UNSUBSCRIBE", params: string[]) => {
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ method, params, id: ++requestId }));
+    }
+  };
+
+  const clearTimers = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (staleTimer) clearTimeout(staleTimer);
+    reconnectTimer = null;
+    staleTimer = null;
+  };
+
+  const armStaleTimer = () => {
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => {
+      setStatus("stale");
+      staleTimer = setTimeout(() => ws?.close(), staleAfterMs);
+    }, staleAfterMs);
+  };
+
+  const scheduleReconnect = () => {
+    setStatus(hasConnected ? "reconnecting" : "connecting");
+    const delay = Math.min(maxBackoffMs, baseBackoffMs * 2 ** attempt) * (0.5 + Math.random() * 0.5);
+    attempt++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    reconnectTimer = null;
+    if (streams.size === 0) return;
+    const requested = Array.from(streams.keys());
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${url}/stream?streams=${requested.join("/")}`);
+    } catch {
+      scheduleReconnect();
+      return;
+    }
+    ws = socket;
+    socket.onopen = () => {
+      const isReconnect = hasConnected;
+      attempt = 0;
+      hasConnected = true;
+      setStatus("live");
+      armStaleTimer();
+      // Streams added or dropped while the socket was still connecting
+      const added = Array.from(streams.keys()).filter((s) => !requested.includes(s));
+      const dropped = requested.filter((s) => !streams.has(s));
+      if (added.length > 0) send("SUBSCRIBE", added);
+      if (dropped.length > 0) send("UNSUBSCRIBE", dropped);
+      if (isReconnect) {
+        streams.forEach((handlers) => handlers.forEach((h) => h.onReconnect?.()));
+      }
+    };
+    socket.onmessage = (event) => {
+      armStaleTimer();
+      setStatus("live");
+      const msg = JSON.parse(event.data);
+      if (msg.stream) streams.get(msg.stream)?.forEach((h) => h.onMessage(msg.data));
+    };
+    socket.onerror = () => socket.close();
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      clearTimers();
+      if (streams.size > 0) scheduleReconnect();
+    };
+  }
+
+  function subscribe(stream: string, onMessage: (data: any) => void, onReconnect?: () => void) {
+    const handler: StreamHandler = { onMessage, onReconnect };
+    const handlers = streams.get(stream);
+    if (handlers) {
+      handlers.add(handler);
+    } else {
+      streams.set(stream, new Set([handler]));
+      if (ws) send("SUBSCRIBE", [stream]);
+      else if (!reconnectTimer) connect();
+    }
+
+    return () => {
+      const current = streams.get(stream);
+      if (!current?.delete(handler) || current.size > 0) return;
+      streams.delete(stream);
+      if (streams.size > 0) {
+        send("UNSUBSCRIBE", [stream]);
+        return;
+      }
+      // Last stream gone: close quietly and start over on the next subscribe
+      clearTimers();
+      const socket = ws;
+      ws = null;
+      socket?.close();
+      attempt = 0;
+      hasConnected = false;
+      setStatus("connecting");
+    };
+  }
+
+  function subscribeStatus(listener: (status: ConnectionStatus) => void) {
+    statusListeners.add(listener);
+    listener(status);
+    return () => { statusListeners.delete(listener); };
+  }
+
+  return { subscribe, subscribeStatus };
+}
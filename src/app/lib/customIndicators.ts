@@ -0,0 +1,51 @@
+import { registerIndicator, IndicatorSeries } from "klinecharts";
+import { compileFormula } from "./formula";
+import { loadJSON, saveJSON } from "./storage";
+
+// ========== Types ==========
+
+/** Where a custom indicator is drawn: over the candles or in its own pane. */
+export type IndicatorPlacement = "main" | "sub";
+
+export interface CustomIndicator {
+  id: string;
+  name: string;
+  formula: string;
+  placement: IndicatorPlacement;
+}
+
+// ========== Registration ==========
+
+/** The klinecharts indicator name; kept distinct from the user's label so renames and built-ins never clash. */
+export function customIndicatorName(id: string): string {
+  return `CUSTOM_${id}`;
+}
+
+/**
+ * Compiles the formula and registers it with klinecharts, replacing any
+ * previous template under the same id. Throws `FormulaError` if the formula
+ * does not compile.
+ */
+export function registerCustomIndicator(indicator: CustomIndicator): void {
+  const compiled = compileFormula(indicator.formula);
+  registerIndicator<Record<string, number>>({
+    name: customIndicatorName(indicator.id),
+    shortName: indicator.name,
+    series: indicator.placement === "main" ? IndicatorSeries.Price : IndicatorSeries.Normal,
+    precision: 4,
+    figures: compiled.outputs.map((key) => ({ key, title: `${key}: `, type: "line" })),
+    calc: (dataList) => compiled.calc(dataList),
+  });
+}
+
+// ========== Persistence ==========
+
+const CUSTOM_KEY = "customIndicators";
+
+export function loadCustomIndicators(): CustomIndicator[] {
+  return loadJSON<CustomIndicator[]>(CUSTOM_KEY, []);
+}
+
+export function saveCustomIndicators(indicators: CustomIndicator[]): void {
+  saveJSON(CUSTOM_KEY, indicators);
+}
@@ -0,0 +1,87 @@
+import { registerOverlay, PolygonType, type OverlayTemplate } from "klinecharts";
+import { loadJSON, removeJSON, saveJSON } from "./storage";
+
+// ========== Types ==========
+
+export interface DrawingPoint {
+  timestamp: number;
+  value: number;
+}
+
+/** A user drawing as persisted; overlay ids are not stable and are not stored. */
+export interface Drawing {
+  name: string;
+  points: DrawingPoint[];
+  lock: boolean;
+  extendData?: any;
+}
+
+export interface DrawingTool {
+  overlay: string;
+  label: string;
+  icon: string;
+}
+
+// ========== Tools ==========
+
+export const DRAWING_GROUP = "drawings";
+
+export const DRAWING_TOOLS: DrawingTool[] = [
+  { overlay: "segment", label: "Trend Line", icon: "╱" },
+  { overlay: "horizontalStraightLine", label: "Horizontal Line", icon: "─" },
+  { overlay: "verticalStraightLine", label: "Vertical Line", icon: "│" },
+  { overlay: "rayLine", label: "Ray", icon: "↗" },
+  { overlay: "parallelStraightLine", label: "Parallel Channel", icon: "⫽" },
+  { overlay: "fibonacciLine", label: "Fibonacci Retracement", icon: "Fib" },
+  { overlay: "rectangle", label: "Rectangle", icon: "▭" },
+  { overlay: "textNote", label: "Text Note", icon: "T" },
+];
+
+const rectangle: OverlayTemplate = {
+  name: "rectangle",
+  totalStep: 3,
+  needDefaultPointFigure: true,
+  needDefaultXAxisFigure: true,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ coordinates }) => {
+    if (coordinates.length < 2) return [];
+    const [a, b] = coordinates;
+    return [{
+      type: "polygon",
+      attrs: { coordinates: [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }] },
+      styles: { style: PolygonType.StrokeFill, color: "rgba(22, 119, 255, 0.12)" },
+    }];
+  },
+};
+
+const textNote: OverlayTemplate = {
+  name: "textNote",
+  totalStep: 2,
+  needDefaultPointFigure: true,
+  createPointFigures: ({ overlay, coordinates }) => [{
+    type: "text",
+    attrs: { x: coordinates[0].x, y: coordinates[0].y, text: overlay.extendData ?? "", baseline: "bottom" },
+    styles: { color: "#eaecef", backgroundColor: "rgba(22, 119, 255, 0.6)" },
+  }],
+};
+
+/** Registers the drawing overlays klinecharts does not ship with. */
+export function registerDrawingOverlays(): void {
+  registerOverlay(rectangle);
+  registerOverlay(textNote);
+}
+
+// ========== Persistence ==========
+
+export function drawingsKey(symbol: string, interval: string): string {
+  return `drawings:${symbol}:${interval}`;
+}
+
+export function loadDrawings(key: string): Drawing[] {
+  return loadJSON<Drawing[]>(key, []);
+}
+
+export function saveDrawings(key: string, drawings: Drawing[]): void {
+  if (drawings.length === 0) removeJSON(key);
+  else saveJSON(key, drawings);
+}
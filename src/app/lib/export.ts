@@ -0,0 +1,227 @@
+import type { Chart, Indicator, KLineData } from "klinecharts";
+
+// ========== Types ==========
+
+export type ExportFormat = "csv" | "json";
+export type ExportRange = "all" | "visible" | "dates";
+
+export interface DataExportOptions {
+  range: ExportRange;
+  /** Inclusive `YYYY-MM-DD` bounds for the "dates" range, read in `timeZone`. */
+  fromDate?: string;
+  toDate?: string;
+  /** IANA zone, or "local" for the browser's zone. */
+  timeZone: string;
+  includeIndicators: boolean;
+}
+
+export interface ExportTable {
+  columns: string[];
+  rows: Array<Array<string | number | null>>;
+}
+
+export const EXPORT_TIMEZONES = [
+  "local", "UTC", "America/New_York", "America/Chicago", "Europe/London", "Europe/Berlin",
+  "Asia/Dubai", "Asia/Singapore", "Asia/Shanghai", "Asia/Tokyo", "Australia/Sydney",
+];
+
+const CANDLE_COLUMNS = ["time", "timestamp", "open", "high", "low", "close", "volume"];
+
+// ========== Time Zones ==========
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone === "local" ? undefined : timeZone,
+      year: "numeric", month: "2-digit", day: "2-digit",
+      hour: "2-digit", minute: "2-digit", second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(timestamp: number, timeZone: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone).formatToParts(timestamp).forEach((p) => { parts[p.type] = p.value; });
+  return parts;
+}
+
+/** `YYYY-MM-DD HH:mm:ss` wall-clock time of `timestamp` in `timeZone`. */
+export function formatTimestamp(timestamp: number, timeZone: string): string {
+  const p = zonedParts(timestamp, timeZone);
+  return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute}:${p.second}`;
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `timestamp`. */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const p = zonedParts(timestamp, timeZone);
+  const wall = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return wall - Math.floor(timestamp / 1000) * 1000;
+}
+
+/** Timestamp of midnight on `date` (`YYYY-MM-DD`) in `timeZone`. */
+export function startOfDay(date: string, timeZone: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  const wall = Date.UTC(y, m - 1, d);
+  // A second pass settles dates where the first guess lands across a DST change
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+// ========== Data Export ==========
+
+interface IndicatorColumn {
+  name: string;
+  indicator: Indicator;
+  key: string;
+}
+
+/** One column per figure of every visible indicator, named like `MA.MA5` or `MACD.DIF`. */
+function indicatorColumns(chart: Chart): IndicatorColumn[] {
+  const panes = chart.getIndicatorByPaneId() as Map<string, Map<string, Indicator>>;
+  const columns: IndicatorColumn[] = [];
+  panes.forEach((indicators) => {
+    indicators.forEach((indicator) => {
+      if (!indicator.visible) return;
+      indicator.figures.forEach((figure) => {
+        const title = figure.title?.replace(/:\s*$/, "").trim() || figure.key;
+        columns.push({ name: `${indicator.shortName}.${title}`, indicator, key: figure.key });
+      });
+    });
+  });
+  return columns;
+}
+
+function selectRange(chart: Chart, dataList: KLineData[], options: DataExportOptions): [number, number] {
+  if (options.range === "visible") {
+    const { realFrom, realTo } = chart.getVisibleRange();
+    return [Math.max(0, realFrom), Math.min(dataList.length, realTo)];
+  }
+  if (options.range === "dates") {
+    const from = options.fromDate ? startOfDay(options.fromDate, options.timeZone) : -Infinity;
+    const to = options.toDate ? startOfDay(options.toDate, options.timeZone) + 86_400_000 : Infinity;
+    let start = dataList.findIndex((k) => k.timestamp >= from);
+    if (start === -1) start = dataList.length;
+    let end = start;
+    while (end < dataList.length && dataList[end].timestamp < to) end++;
+    return [start, end];
+  }
+  return [0, dataList.length];
+}
+
+// Indicator maths leaves float noise that would bloat every row
+const clean = (value: unknown): number | null =>
+  typeof value === "number" && isFinite(value) ? +value.toFixed(8) : null;
+
+/** Loaded candles in the selected range plus, optionally, the values of the chart's indicators. */
+export function collectExportData(chart: Chart, options: DataExportOptions): ExportTable {
+  const dataList = chart.getDataList();
+  const [start, end] = selectRange(chart, dataList, options);
+  const extra = options.includeIndicators ? indicatorColumns(chart) : [];
+  const rows = dataList.slice(start, end).map((k, i) => [
+    formatTimestamp(k.timestamp, options.timeZone),
+    k.timestamp, k.open, k.high, k.low, k.close, k.volume ?? null,
+    ...extra.map((c) => clean(c.indicator.result[start + i]?.[c.key])),
+  ]);
+  return { columns: [...CANDLE_COLUMNS, ...extra.map((c) => c.name)], rows };
+}
+
+export function toCSV(table: ExportTable): string {
+  const cell = (value: string | number | null) => {
+    if (value === null) return "";
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [table.columns, ...table.rows].map((row) => row.map(cell).join(",")).join("\n") + "\n";
+}
+
+/** Array of row objects keyed by column name. */
+export function toJSON(table: ExportTable): string {
+  const records = table.rows.map((row) =>
+    Object.fromEntries(table.columns.map((column, i) => [column, row[i]])));
+  return JSON.stringify(records, null, 2);
+}
+
+// ========== Image Export ==========
+
+export interface ImageExportOptions {
+  title: string;
+  subtitle: string;
+  watermark?: string;
+  includeDrawings: boolean;
+}
+
+const HEADER_HEIGHT = 32;
+const BACKGROUND = "#0b0e11";
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not render the chart"));
+    image.src = src;
+  });
+}
+
+/** PNG of the chart below a title/subtitle header, with an optional centred watermark. */
+export async function renderChartImage(chart: Chart, options: ImageExportOptions): Promise<Blob> {
+  const chartImage = await loadImage(chart.getConvertPictureUrl(options.includeDrawings, "png", BACKGROUND));
+  // The chart snapshot is drawn at device pixel ratio; scale the header to match
+  const ratio = window.devicePixelRatio || 1;
+  const header = HEADER_HEIGHT * ratio;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = chartImage.width;
+  canvas.height = chartImage.height + header;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#e5e7eb";
+  ctx.font = `600 ${14 * ratio}px sans-serif`;
+  ctx.fillText(options.title, 12 * ratio, header / 2);
+  const titleWidth = ctx.measureText(options.title).width;
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = `${12 * ratio}px sans-serif`;
+  ctx.fillText(options.subtitle, 12 * ratio + titleWidth + 10 * ratio, header / 2);
+  ctx.fillStyle = "#2a2e37";
+  ctx.fillRect(0, header - ratio, canvas.width, ratio);
+
+  ctx.drawImage(chartImage, 0, header);
+
+  if (options.watermark) {
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.fillStyle = "rgba(255, 255, 255, 0.08)";
+    ctx.font = `700 ${Math.round(chartImage.width / 12)}px sans-serif`;
+    ctx.fillText(options.watermark, canvas.width / 2, header + chartImage.height / 2, chartImage.width * 0.9);
+    ctx.restore();
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), "image/png");
+  });
+}
+
+// ========== Download ==========
+
+export function exportFileName(symbol: string, interval: string, extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return `${symbol}_${interval}_${stamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a tick to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,325 @@
+import type { KLineData } from "klinecharts";
+import { crossOver, ema, rsi, sma, stdev } from "./indicators";
+
+// ========== Formula Language ==========
+// A small expression language for custom indicators, evaluated over whole
+// series at once. A formula is one statement per line (or `;`-separated):
+//
+//   MID := (HIGH + LOW) / 2        intermediate variable, not plotted
+//   FAST: EMA(CLOSE, 12)           plotted line named FAST
+//   EMA(CLOSE, 26)                 plotted line with a generated name
+//
+// Identifiers are case-insensitive. Nothing is executed as JavaScript.
+
+export class FormulaError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type Token =
+  | { type: "num"; value: number; line: number; column: number }
+  | { type: "ident"; value: string; line: number; column: number }
+  | { type: "op"; value: string; line: number; column: number }
+  | { type: "sep"; value: string; line: number; column: number }
+  | { type: "eof"; value: ""; line: number; column: number };
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "var"; name: string; line: number; column: number }
+  | { kind: "call"; name: string; args: Node[]; line: number; column: number }
+  | { kind: "unary"; op: string; arg: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node };
+
+interface Statement {
+  target: string | null;
+  plot: boolean;
+  expr: Node;
+}
+
+const OPERATORS = [":=", ">=", "<=", "==", "!=", "&&", "||", "+", "-", "*", "/", ">", "<", "!", "(", ")", ",", ":"];
+const KEYWORD_OPS: Record<string, string> = { AND: "&&", OR: "||", NOT: "!" };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const column = i - lineStart + 1;
+    if (ch === "\n" || ch === ";") {
+      tokens.push({ type: "sep", value: ch, line, column });
+      if (ch === "\n") {
+        line++;
+        lineStart = i + 1;
+      }
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^\d*\.?\d+(?:[eE][-+]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Invalid number`, line, column);
+      tokens.push({ type: "num", value: parseFloat(match[0]), line, column });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      const word = match[0].toUpperCase();
+      if (KEYWORD_OPS[word]) tokens.push({ type: "op", value: KEYWORD_OPS[word], line, column });
+      else tokens.push({ type: "ident", value: word, line, column });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find((o) => source.startsWith(o, i));
+      if (!op) throw new FormulaError(`Unexpected character "${ch}"`, line, column);
+      tokens.push({ type: "op", value: op, line, column });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: "eof", value: "", line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+function parse(tokens: Token[]): Statement[] {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isOp = (value: string) => peek().type === "op" && peek().value === value;
+  const expectOp = (value: string) => {
+    const t = next();
+    if (t.type !== "op" || t.value !== value) {
+      throw new FormulaError(`Expected "${value}"${t.type === "eof" ? " before end of formula" : ""}`, t.line, t.column);
+    }
+  };
+
+  const binary = (ops: string[], operand: () => Node) => (): Node => {
+    let left = operand();
+    while (peek().type === "op" && ops.includes(peek().value as string)) {
+      const op = next().value as string;
+      left = { kind: "binary", op, left, right: operand() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const t = next();
+    if (t.type === "num") return { kind: "num", value: t.value };
+    if (t.type === "ident") {
+      if (isOp("(")) {
+        next();
+        const args: Node[] = [];
+        if (!isOp(")")) {
+          args.push(expression());
+          while (isOp(",")) {
+            next();
+            args.push(expression());
+          }
+        }
+        expectOp(")");
+        return { kind: "call", name: t.value, args, line: t.line, column: t.column };
+      }
+      return { kind: "var", name: t.value, line: t.line, column: t.column };
+    }
+    if (t.type === "op" && t.value === "(") {
+      const inner = expression();
+      expectOp(")");
+      return inner;
+    }
+    throw new FormulaError(t.type === "eof" ? "Unexpected end of formula" : `Unexpected "${t.value}"`, t.line, t.column);
+  };
+
+  const unary = (): Node => {
+    if (isOp("-") || isOp("!")) {
+      const op = next().value as string;
+      return { kind: "unary", op, arg: unary() };
+    }
+    return primary();
+  };
+
+  const multiplicative = binary(["*", "/"], unary);
+  const additive = binary(["+", "-"], multiplicative);
+  const comparison = binary([">", "<", ">=", "<=", "==", "!="], additive);
+  const and = binary(["&&"], comparison);
+  const expression = binary(["||"], and);
+
+  const statements: Statement[] = [];
+  while (peek().type !== "eof") {
+    if (peek().type === "sep") {
+      next();
+      continue;
+    }
+    const t = peek();
+    const after = tokens[pos + 1];
+    let statement: Statement;
+    if (t.type === "ident" && after.type === "op" && (after.value === ":=" || after.value === ":")) {
+      pos += 2;
+      statement = { target: t.value, plot: after.value === ":", expr: expression() };
+    } else {
+      statement = { target: null, plot: true, expr: expression() };
+    }
+    const end = peek();
+    if (end.type !== "sep" && end.type !== "eof") {
+      throw new FormulaError(`Unexpected "${end.value}"`, end.line, end.column);
+    }
+    statements.push(statement);
+  }
+  return statements;
+}
+
+// ========== Evaluation ==========
+
+type Series = number[];
+
+const SERIES: Record<string, (d: KLineData) => number> = {
+  OPEN: (d) => d.open,
+  HIGH: (d) => d.high,
+  LOW: (d) => d.low,
+  CLOSE: (d) => d.close,
+  VOLUME: (d) => d.volume ?? NaN,
+  TURNOVER: (d) => d.turnover ?? NaN,
+};
+
+const rolling = (x: Series, n: number, fn: (window: Series) => number): Series =>
+  x.map((_, i) => (i + 1 < n ? NaN : fn(x.slice(i + 1 - n, i + 1))));
+
+interface FunctionDef {
+  /** Number of series arguments followed by a constant period argument, if any. */
+  series: number;
+  period?: boolean;
+  fn: (args: Series[], period: number) => Series;
+}
+
+const FUNCTIONS: Record<string, FunctionDef> = {
+  MA: { series: 1, period: true, fn: ([x], n) => sma(x, n) },
+  SMA: { series: 1, period: true, fn: ([x], n) => sma(x, n) },
+  EMA: { series: 1, period: true, fn: ([x], n) => ema(x, n) },
+  STDEV: { series: 1, period: true, fn: ([x], n) => stdev(x, n) },
+  RSI: { series: 1, period: true, fn: ([x], n) => rsi(x, n) },
+  REF: { series: 1, period: true, fn: ([x], n) => x.map((_, i) => (i - n >= 0 ? x[i - n] : NaN)) },
+  HHV: { series: 1, period: true, fn: ([x], n) => rolling(x, n, (w) => Math.max(...w)) },
+  LLV: { series: 1, period: true, fn: ([x], n) => rolling(x, n, (w) => Math.min(...w)) },
+  SUM: { series: 1, period: true, fn: ([x], n) => rolling(x, n, (w) => w.reduce((a, b) => a + b, 0)) },
+  CROSS: { series: 2, fn: ([a, b]) => a.map((_, i) => (crossOver(a, b, i) ? 1 : 0)) },
+  ABS: { series: 1, fn: ([x]) => x.map(Math.abs) },
+  MAX: { series: 2, fn: ([a, b]) => a.map((v, i) => Math.max(v, b[i])) },
+  MIN: { series: 2, fn: ([a, b]) => a.map((v, i) => Math.min(v, b[i])) },
+  IF: { series: 3, fn: ([c, a, b]) => c.map((v, i) => (v ? a[i] : b[i])) },
+};
+
+export const FORMULA_SERIES = Object.keys(SERIES);
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const BINARY_OPS: Record<string, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => a / b,
+  ">": (a, b) => Number(a > b),
+  "<": (a, b) => Number(a < b),
+  ">=": (a, b) => Number(a >= b),
+  "<=": (a, b) => Number(a <= b),
+  "==": (a, b) => Number(a === b),
+  "!=": (a, b) => Number(a !== b),
+  "&&": (a, b) => Number(!!a && !!b),
+  "||": (a, b) => Number(!!a || !!b),
+};
+
+/** Checks names and arities up front so bad formulas fail at compile time, not per bar. */
+function validate(node: Node, defined: Set<string>): void {
+  switch (node.kind) {
+    case "num":
+      return;
+    case "var":
+      if (!SERIES[node.name] && !defined.has(node.name)) {
+        throw new FormulaError(`Unknown variable "${node.name}"`, node.line, node.column);
+      }
+      return;
+    case "unary":
+      validate(node.arg, defined);
+      return;
+    case "binary":
+      validate(node.left, defined);
+      validate(node.right, defined);
+      return;
+    case "call": {
+      const def = FUNCTIONS[node.name];
+      if (!def) throw new FormulaError(`Unknown function "${node.name}"`, node.line, node.column);
+      const arity = def.series + (def.period ? 1 : 0);
+      if (node.args.length !== arity) {
+        throw new FormulaError(`${node.name} expects ${arity} argument${arity === 1 ? "" : "s"}`, node.line, node.column);
+      }
+      if (def.period) {
+        const period = node.args[def.series];
+        if (period.kind !== "num" || !Number.isInteger(period.value) || period.value < 1) {
+          throw new FormulaError(`${node.name} period must be a positive whole number`, node.line, node.column);
+        }
+      }
+      node.args.slice(0, def.series).forEach((arg) => validate(arg, defined));
+    }
+  }
+}
+
+function evaluate(node: Node, data: KLineData[], vars: Map<string, Series>): Series {
+  switch (node.kind) {
+    case "num":
+      return new Array(data.length).fill(node.value);
+    case "var":
+      return vars.get(node.name) ?? data.map(SERIES[node.name]);
+    case "unary": {
+      const arg = evaluate(node.arg, data, vars);
+      return node.op === "-" ? arg.map((v) => -v) : arg.map((v) => Number(!v));
+    }
+    case "binary": {
+      const left = evaluate(node.left, data, vars);
+      const right = evaluate(node.right, data, vars);
+      const op = BINARY_OPS[node.op];
+      return left.map((v, i) => op(v, right[i]));
+    }
+    case "call": {
+      const def = FUNCTIONS[node.name];
+      const args = node.args.slice(0, def.series).map((arg) => evaluate(arg, data, vars));
+      const period = def.period ? (node.args[def.series] as { value: number }).value : 0;
+      return def.fn(args, period);
+    }
+  }
+}
+
+export interface CompiledFormula {
+  /** Plotted output names, in order. */
+  outputs: string[];
+  /** One record per bar mapping output name to value; non-finite values are omitted. */
+  calc: (data: KLineData[]) => Array<Record<string, number>>;
+}
+
+export function compileFormula(source: string): CompiledFormula {
+  const statements = parse(tokenize(source));
+  if (!statements.some((s) => s.plot)) throw new FormulaError("Formula has no plotted output", 1, 1);
+
+  const defined = new Set<string>();
+  const outputs: string[] = [];
+  const targets = statements.map((s) => {
+    validate(s.expr, defined);
+    const name = s.target ?? `VALUE${outputs.length + 1}`;
+    defined.add(name);
+    if (s.plot && !outputs.includes(name)) outputs.push(name);
+    return name;
+  });
+
+  return {
+    outputs,
+    calc: (data) => {
+      const vars = new Map<string, Series>();
+      statements.forEach((s, i) => vars.set(targets[i], evaluate(s.expr, data, vars)));
+      return data.map((_, i) => {
+        const row: Record<string, number> = {};
+        outputs.forEach((name) => {
+          const v = vars.get(name)![i];
+          if (Number.isFinite(v)) row[name] = v;
+        });
+        return row;
+      });
+    },
+  };
+}
@@ -0,0 +1,356 @@
+import type { KLineData } from "klinecharts";
+import { DATASETS_STORE, loadJSON, openDatabase, removeJSON, requestResult, writeTransaction } from "./storage";
+import type { SymbolInfo } from "./utils";
+
+// ========== Types ==========
+
+/** A parsed file before column mapping: header names plus raw cell values. */
+export interface RawTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+export type TimestampFormat = "auto" | "unix_s" | "unix_ms" | "date";
+
+/** Column index for each field; volume is optional. */
+export interface ColumnMapping {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+export interface ParseOptions {
+  mapping: ColumnMapping;
+  timestampFormat: TimestampFormat;
+  /** Read date strings without an offset as UTC instead of local time. */
+  assumeUtc: boolean;
+}
+
+export interface ParseResult {
+  bars: KLineData[];
+  /** Rows dropped for missing or inconsistent values; `errors` samples the first few. */
+  rejected: number;
+  duplicates: number;
+  errors: string[];
+}
+
+/** A named offline symbol built from an imported file. */
+export interface ImportedDataset {
+  symbol: string;
+  name: string;
+  fileName: string;
+  interval: string;
+  pricePrecision: number;
+  quantityPrecision: number;
+  importedAt: number;
+  bars: KLineData[];
+}
+
+export class ImportError extends Error {}
+
+export const TIMESTAMP_FORMATS: Record<TimestampFormat, string> = {
+  auto: "Detect",
+  unix_s: "Unix seconds",
+  unix_ms: "Unix milliseconds",
+  date: "Date string",
+};
+
+const MAX_ERRORS = 5;
+
+// ========== Parsing ==========
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseCsv(text: string): RawTable {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  if (lines.length === 0) throw new ImportError("The file is empty");
+  // Whichever candidate splits the first line into the most cells
+  const delimiter = [",", ";", "\t", "|"].reduce((best, d) =>
+    (lines[0].split(d).length > lines[0].split(best).length ? d : best));
+  const first = splitCsvLine(lines[0], delimiter);
+  // A header row is one whose cells are not all numbers or dates
+  const hasHeader = first.some((c) => c !== "" && isNaN(Number(c)) && isNaN(Date.parse(c)));
+  const columns = hasHeader ? first : first.map((_, i) => `Column ${i + 1}`);
+  const rows = (hasHeader ? lines.slice(1) : lines).map((l) => splitCsvLine(l, delimiter));
+  return { columns, rows };
+}
+
+function parseJsonTable(text: string): RawTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("The file is not valid JSON");
+  }
+  // Accept a bare array or the first array-valued property ({ data: [...] })
+  if (!Array.isArray(data) && data && typeof data === "object") {
+    data = Object.values(data).find(Array.isArray);
+  }
+  if (!Array.isArray(data) || data.length === 0) throw new ImportError("Expected an array of candles");
+  if (Array.isArray(data[0])) {
+    return { columns: (data[0] as unknown[]).map((_, i) => `Column ${i + 1}`), rows: data as unknown[][] };
+  }
+  if (data[0] && typeof data[0] === "object") {
+    const columns = Object.keys(data[0] as object);
+    return {
+      columns,
+      rows: data.map((r) => columns.map((c) => (r as Record<string, unknown>)?.[c])),
+    };
+  }
+  throw new ImportError("Expected candles as objects or arrays");
+}
+
+/** Splits a CSV or JSON file into columns and rows, judged by extension and then content. */
+export function parseImportFile(fileName: string, text: string): RawTable {
+  const json = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  return json ? parseJsonTable(text) : parseCsv(text);
+}
+
+const COLUMN_PATTERNS: Record<keyof ColumnMapping, RegExp> = {
+  time: /^(time|timestamp|date|datetime|open_?time|t|ts)$/i,
+  open: /^(open|o)$/i,
+  high: /^(high|h)$/i,
+  low: /^(low|l)$/i,
+  close: /^(close|c|price|last)$/i,
+  volume: /^(volume|vol|v)$/i,
+};
+
+/** Maps columns by name, falling back to the exchange's kline order (time, O, H, L, C, V). */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const find = (field: keyof ColumnMapping, fallback: number | null) => {
+    const index = columns.findIndex((c) => COLUMN_PATTERNS[field].test(c.trim()));
+    if (index !== -1) return index;
+    return fallback !== null && fallback < columns.length ? fallback : null;
+  };
+  return {
+    time: find("time", 0) ?? 0,
+    open: find("open", 1) ?? 0,
+    high: find("high", 2) ?? 0,
+    low: find("low", 3) ?? 0,
+    close: find("close", 4) ?? 0,
+    volume: find("volume", 5),
+  };
+}
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+
+function parseTimestamp(value: unknown, format: TimestampFormat, assumeUtc: boolean): number {
+  const numeric = toNumber(value);
+  if (format === "unix_s") return numeric * 1000;
+  if (format === "unix_ms") return numeric;
+  // Epoch seconds stay below 1e11 until the year 5138
+  if (format === "auto" && !isNaN(numeric)) return numeric < 1e11 ? numeric * 1000 : numeric;
+  if (typeof value !== "string") return NaN;
+  let text = value.trim();
+  if (assumeUtc && !/(Z|[+-]\d\d:?\d\d)$/i.test(text)) {
+    text = /^\d{4}-\d\d-\d\d$/.test(text) ? text : `${text.replace(" ", "T")}Z`;
+  }
+  return Date.parse(text);
+}
+
+/**
+ * Maps rows to candles, dropping rows with unparseable or inconsistent
+ * values. The result is sorted by time with the last row winning on
+ * duplicate timestamps.
+ */
+export function buildKlines(table: RawTable, { mapping, timestampFormat, assumeUtc }: ParseOptions): ParseResult {
+  const byTime = new Map<number, KLineData>();
+  const errors: string[] = [];
+  let rejected = 0;
+  let duplicates = 0;
+  const reject = (row: number, reason: string) => {
+    rejected++;
+    if (errors.length < MAX_ERRORS) errors.push(`Row ${row + 1}: ${reason}`);
+  };
+
+  table.rows.forEach((row, i) => {
+    const timestamp = parseTimestamp(row[mapping.time], timestampFormat, assumeUtc);
+    if (!isFinite(timestamp)) return reject(i, `unreadable time "${String(row[mapping.time])}"`);
+    const open = toNumber(row[mapping.open]);
+    const high = toNumber(row[mapping.high]);
+    const low = toNumber(row[mapping.low]);
+    const close = toNumber(row[mapping.close]);
+    const volume = mapping.volume === null ? 0 : toNumber(row[mapping.volume]);
+    if (![open, high, low, close, volume].every(isFinite)) return reject(i, "missing or non-numeric price");
+    if (high < Math.max(open, close, low) || low > Math.min(open, close)) return reject(i, "high/low do not contain open and close");
+    if (byTime.has(timestamp)) duplicates++;
+    byTime.set(timestamp, { timestamp, open, high, low, close, volume, turnover: ((open + close) / 2) * volume });
+  });
+
+  const bars = Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+  return { bars, rejected, duplicates, errors };
+}
+
+// ========== Dataset Metadata ==========
+
+const UNIT_LABELS: Array<[string, number]> = [
+  ["w", 7 * 24 * 60 * 60 * 1000],
+  ["d", 24 * 60 * 60 * 1000],
+  ["h", 60 * 60 * 1000],
+  ["m", 60 * 1000],
+];
+
+/** Interval string for the most common gap between bars, e.g. "15m" or "1d". */
+export function detectInterval(bars: KLineData[]): string | null {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < Math.min(bars.length, 500); i++) {
+    const gap = bars[i].timestamp - bars[i - 1].timestamp;
+    counts.set(gap, (counts.get(gap) ?? 0) + 1);
+  }
+  let step = 0;
+  let best = 0;
+  counts.forEach((count, gap) => { if (count > best) { best = count; step = gap; } });
+  const unit = UNIT_LABELS.find(([, ms]) => step >= ms && step % ms === 0);
+  return unit ? `${step / unit[1]}${unit[0]}` : null;
+}
+
+/** Decimals needed to show every value, capped at 8. */
+function precisionOf(values: number[]): number {
+  return values.reduce((max, v) => {
+    const [, fraction = ""] = String(+v.toFixed(8)).split(".");
+    return Math.max(max, fraction.length);
+  }, 0);
+}
+
+/** Upper-case ticker from a display name, suffixed when it would clash. */
+export function symbolFromName(name: string, taken: string[]): string {
+  const base = name.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 20) || "IMPORT";
+  let symbol = base;
+  for (let n = 2; taken.includes(symbol); n++) symbol = `${base}${n}`;
+  return symbol;
+}
+
+export function createDataset(
+  name: string,
+  fileName: string,
+  interval: string,
+  bars: KLineData[],
+  taken: string[],
+): ImportedDataset {
+  const sample = bars.slice(-500);
+  return {
+    symbol: symbolFromName(name, taken),
+    name,
+    fileName,
+    interval,
+    pricePrecision: precisionOf(sample.flatMap((b) => [b.open, b.high, b.low, b.close])),
+    quantityPrecision: precisionOf(sample.map((b) => b.volume ?? 0)),
+    importedAt: Date.now(),
+    bars,
+  };
+}
+
+export function datasetSymbol(dataset: ImportedDataset): SymbolInfo {
+  return {
+    symbol: dataset.symbol,
+    name: dataset.fileName,
+    pair: dataset.name,
+    baseAsset: dataset.name,
+    quoteAsset: "",
+    pricePrecision: dataset.pricePrecision,
+    quantityPrecision: dataset.quantityPrecision,
+  };
+}
+
+// ========== Persistence ==========
+// Datasets live in IndexedDB: a single large file would exceed localStorage's quota
+
+const LEGACY_DATASETS_KEY = "importedDatasets";
+
+/** Stored with bars as `[t, o, h, l, c, v]` tuples to keep records small. */
+type StoredDataset = Omit<ImportedDataset, "bars"> & { bars: number[][] };
+
+const toStored = (d: ImportedDataset): StoredDataset => ({
+  ...d,
+  bars: d.bars.map((b) => [b.timestamp, b.open, b.high, b.low, b.close, b.volume ?? 0]),
+});
+const fromStored = (d: StoredDataset): ImportedDataset => ({
+  ...d,
+  bars: d.bars.map(([timestamp, open, high, low, close, volume]) => ({
+    timestamp, open, high, low, close, volume, turnover: ((open + close) / 2) * volume,
+  })),
+});
+
+let datasets: ImportedDataset[] | null = null;
+let datasetsRequest: Promise<void> | null = null;
+
+/** The datasets loaded so far; empty until `loadDatasets` has resolved. */
+export function getDatasets(): ImportedDataset[] {
+  return datasets ?? [];
+}
+
+export function loadDatasets(): Promise<ImportedDataset[]> {
+  // Not cached on the server, where there is no storage to read
+  if (typeof window === "undefined") return Promise.resolve([]);
+  datasetsRequest ??= readDatasets().then((list) => {
+    datasets = list;
+  });
+  // Read after the first load so datasets added or removed since are reflected
+  return datasetsRequest.then(getDatasets);
+}
+
+async function readDatasets(): Promise<ImportedDataset[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const stored = await requestResult<StoredDataset[]>(db.transaction(DATASETS_STORE).objectStore(DATASETS_STORE).getAll());
+    // Datasets imported before the move to IndexedDB come across once
+    const legacy = loadJSON<StoredDataset[]>(LEGACY_DATASETS_KEY, []);
+    if (legacy.length > 0) {
+      await writeTransaction(db, DATASETS_STORE, (store) => legacy.forEach((d) => store.put(d)));
+      removeJSON(LEGACY_DATASETS_KEY);
+    }
+    const bySymbol = new Map([...legacy, ...stored].map((d) => [d.symbol, d]));
+    return Array.from(bySymbol.values()).sort((a, b) => a.importedAt - b.importedAt).map(fromStored);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds the dataset for this session and stores it. Rejects when the browser
+ * refuses the write, e.g. over its storage quota; the dataset then lasts
+ * until the page is reloaded.
+ */
+export async function addDataset(dataset: ImportedDataset): Promise<void> {
+  await loadDatasets();
+  datasets = [...getDatasets().filter((d) => d.symbol !== dataset.symbol), dataset];
+  const db = await openDatabase();
+  if (!db) throw new Error("Browser storage is unavailable");
+  await writeTransaction(db, DATASETS_STORE, (store) => store.put(toStored(dataset)));
+}
+
+export async function removeDataset(symbol: string): Promise<void> {
+  await loadDatasets();
+  datasets = getDatasets().filter((d) => d.symbol !== symbol);
+  const db = await openDatabase();
+  if (!db) return;
+  await writeTransaction(db, DATASETS_STORE, (store) => store.delete(symbol)).catch(() => {
+    // Left in storage, it comes back on the next reload
+  });
+}
@@ -0,0 +1,82 @@
+import { LineType, type IndicatorCreate, type SmoothLineStyle } from "klinecharts";
+import { loadJSON, saveJSON } from "./storage";
+import { VP_DEFAULTS, VP_PARAMS, VP_PLACEMENTS, VP_RANGES } from "./volumeProfile";
+
+// ========== Types ==========
+
+export interface IndicatorLineSetting {
+  color: string;
+  size: number;
+}
+
+/** User overrides for one indicator; missing fields fall back to klinecharts defaults. */
+export interface IndicatorSettings {
+  calcParams?: number[];
+  lines?: IndicatorLineSetting[];
+  visible?: boolean;
+}
+
+export type IndicatorSettingsMap = Record<string, IndicatorSettings>;
+
+interface IndicatorMeta {
+  params: string[];
+  defaults: number[];
+  /** Line names; omitted when there is one line per period parameter (MA, EMA). */
+  lines?: string[];
+  /** Parameters picked from a list, by index; the stored value is the 1-based position. */
+  choices?: Record<number, string[]>;
+}
+
+// ========== Defaults ==========
+
+export const DEFAULT_LINE_COLORS = ["#FF9600", "#935EBD", "#1677FF", "#E11D74", "#01C5C4"];
+
+export const INDICATOR_META: Record<string, IndicatorMeta> = {
+  MA: { params: ["Period 1", "Period 2", "Period 3", "Period 4"], defaults: [5, 10, 30, 60] },
+  EMA: { params: ["Period 1", "Period 2", "Period 3"], defaults: [6, 12, 20] },
+  BOLL: { params: ["Period", "StdDev"], defaults: [20, 2], lines: ["UP", "MID", "DN"] },
+  SAR: { params: ["Start", "Step", "Max"], defaults: [2, 2, 20], lines: [] },
+  BBI: { params: ["Period 1", "Period 2", "Period 3", "Period 4"], defaults: [3, 6, 12, 24], lines: ["BBI"] },
+  VP: { params: VP_PARAMS, defaults: VP_DEFAULTS, lines: [], choices: { 0: VP_RANGES, 3: VP_PLACEMENTS } },
+  VOL: { params: ["MA 1", "MA 2", "MA 3"], defaults: [5, 10, 20], lines: ["MA 1", "MA 2", "MA 3"] },
+  MACD: { params: ["Fast", "Slow", "Signal"], defaults: [12, 26, 9], lines: ["DIF", "DEA"] },
+  KDJ: { params: ["Period", "K Smooth", "D Smooth"], defaults: [9, 3, 3], lines: ["K", "D", "J"] },
+  RSI: { params: ["Period 1", "Period 2", "Period 3"], defaults: [6, 12, 24] },
+  ATR: { params: ["Period"], defaults: [14], lines: ["ATR"] },
+  DMI: { params: ["Period", "ADX Period"], defaults: [14, 6], lines: ["PDI", "MDI", "ADX", "ADXR"] },
+  OBV: { params: ["MA Period"], defaults: [30], lines: ["OBV", "MAOBV"] },
+};
+
+export function indicatorLineNames(name: string, calcParams: number[]): string[] {
+  const meta = INDICATOR_META[name];
+  if (!meta) return [];
+  return meta.lines ?? calcParams.map((p) => `${name}${p}`);
+}
+
+function lineStyle(line: IndicatorLineSetting): SmoothLineStyle {
+  return { style: LineType.Solid, smooth: false, dashedValue: [2, 2], color: line.color, size: line.size };
+}
+
+/** Builds the `createIndicator`/`overrideIndicator` argument for an indicator and its saved settings. */
+export function toIndicatorCreate(name: string, settings?: IndicatorSettings): IndicatorCreate {
+  const calcParams = settings?.calcParams ?? INDICATOR_META[name]?.defaults;
+  const lines = settings?.lines ?? DEFAULT_LINE_COLORS.map((color) => ({ color, size: 1 }));
+  return {
+    name,
+    ...(calcParams ? { calcParams } : {}),
+    visible: settings?.visible ?? true,
+    styles: { lines: lines.map(lineStyle) },
+  };
+}
+
+// ========== Persistence ==========
+
+const SETTINGS_KEY = "indicatorSettings";
+
+export function loadIndicatorSettings(): IndicatorSettingsMap {
+  return loadJSON<IndicatorSettingsMap>(SETTINGS_KEY, {});
+}
+
+export function saveIndicatorSettings(settings: IndicatorSettingsMap): void {
+  saveJSON(SETTINGS_KEY, settings);
+}
@@ -0,0 +1,144 @@
+import { registerIndicator } from "klinecharts";
+
+// ========== Series Math ==========
+// Indicator calculations over plain number arrays. Bars without enough
+// history yet are NaN, so results line up index-for-index with the input.
+
+export function sma(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (Number.isNaN(v)) {
+      sum = 0;
+      count = 0;
+      continue;
+    }
+    sum += v;
+    count++;
+    if (count > period) sum -= values[i - period];
+    if (count >= period) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Exponential moving average seeded with the SMA of its first `period` values. */
+export function ema(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN);
+  const k = 2 / (period + 1);
+  let prev = NaN;
+  let seedSum = 0;
+  let seedCount = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (Number.isNaN(v)) continue;
+    if (seedCount < period) {
+      seedSum += v;
+      seedCount++;
+      if (seedCount === period) prev = seedSum / period;
+      else continue;
+    } else {
+      prev = v * k + prev * (1 - k);
+    }
+    out[i] = prev;
+  }
+  return out;
+}
+
+export function stdev(values: number[], period: number): number[] {
+  const mean = sma(values, period);
+  return values.map((_, i) => {
+    if (Number.isNaN(mean[i])) return NaN;
+    let sq = 0;
+    for (let j = i - period + 1; j <= i; j++) sq += (values[j] - mean[i]) ** 2;
+    return Math.sqrt(sq / period);
+  });
+}
+
+/** Relative Strength Index with Wilder smoothing. */
+export function rsi(closes: number[], period: number = 14): number[] {
+  const out: number[] = new Array(closes.length).fill(NaN);
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) continue;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    out[i] = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  }
+  return out;
+}
+
+/** Average True Range with Wilder smoothing, seeded with the mean of the first `period` ranges. */
+export function atr(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+  const out: number[] = new Array(closes.length).fill(NaN);
+  let avg = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const range = Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
+    if (i <= period) {
+      avg += range / period;
+      if (i < period) continue;
+    } else {
+      avg = (avg * (period - 1) + range) / period;
+    }
+    out[i] = avg;
+  }
+  return out;
+}
+
+export interface MacdSeries {
+  /** Fast EMA minus slow EMA (DIF). */
+  macd: number[];
+  /** EMA of `macd` (DEA). */
+  signal: number[];
+  histogram: number[];
+}
+
+export function macd(closes: number[], fast: number = 12, slow: number = 26, signal: number = 9): MacdSeries {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const dif = closes.map((_, i) => fastEma[i] - slowEma[i]);
+  const dea = ema(dif, signal);
+  return { macd: dif, signal: dea, histogram: dif.map((d, i) => d - dea[i]) };
+}
+
+/** True at `i` when `a` moves from at-or-below `b` to above it. */
+export function crossOver(a: number[], b: number[], i: number): boolean {
+  return i > 0 && a[i - 1] <= b[i - 1] && a[i] > b[i];
+}
+
+/** True at `i` when `a` moves from at-or-above `b` to below it. */
+export function crossUnder(a: number[], b: number[], i: number): boolean {
+  return i > 0 && a[i - 1] >= b[i - 1] && a[i] < b[i];
+}
+
+// ========== Chart Indicators ==========
+// Indicators klinecharts has no built-in template for
+
+/** Registers the ATR sub-pane indicator; its period is the one calc param. */
+export function registerAtrIndicator(): void {
+  registerIndicator<{ atr?: number }>({
+    name: "ATR",
+    shortName: "ATR",
+    calcParams: [14],
+    figures: [{ key: "atr", title: "ATR: ", type: "line" }],
+    calc: (dataList, indicator) => {
+      const values = atr(
+        dataList.map((d) => d.high),
+        dataList.map((d) => d.low),
+        dataList.map((d) => d.close),
+        Number(indicator.calcParams[0]) || 14,
+      );
+      return values.map((v) => (Number.isNaN(v) ? {} : { atr: v }));
+    },
+  });
+}
@@ -0,0 +1,169 @@
+import type { OrderBookData, OrderBookEntry } from "./utils";
+import {
+  toDataError, type DataError, type DataProvider, type DepthSnapshot, type DepthUpdate, type PriceLevel, type Unsubscribe,
+} from "./providers";
+
+// ========== Local Order Book ==========
+
+export interface OrderBookOptions {
+  /** Levels per side passed to `onChange`. */
+  depth?: number;
+  /** Minimum time between `onChange` calls. */
+  throttleMs?: number;
+  snapshotLimit?: number;
+  /** Price step levels are bucketed into (bids round down, asks up); omitted for raw levels. */
+  grouping?: number;
+  /** Called when a snapshot fails (the book keeps retrying), and with null once it loads again. */
+  onError?: (error: DataError | null) => void;
+  /** Called when the provider has no order book for the symbol; the book then stays empty. */
+  onUnavailable?: () => void;
+}
+
+const RESYNC_DELAY = 1000;
+
+/**
+ * Maintains a local order book from a REST snapshot plus the depth diff
+ * stream. Diffs are buffered until the snapshot arrives, sequenced by update
+ * id, and any gap in the sequence triggers a fresh snapshot.
+ */
+export function subscribeOrderBook(
+  provider: DataProvider,
+  symbol: string,
+  onChange: (book: OrderBookData) => void,
+  { depth = 15, throttleMs = 100, snapshotLimit = 1000, grouping, onError, onUnavailable }: OrderBookOptions = {},
+): Unsubscribe {
+  const bids = new Map<string, string>();
+  const asks = new Map<string, string>();
+  let lastUpdateId = 0;
+  let syncing = true;
+  let buffer: DepthUpdate[] = [];
+  let closed = false;
+  let renderTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const applyLevels = (side: Map<string, string>, levels: PriceLevel[]) => {
+    levels.forEach(([price, qty]) => {
+      if (parseFloat(qty) === 0) side.delete(price);
+      else side.set(price, qty);
+    });
+  };
+
+  const emit = () => {
+    renderTimer = null;
+    if (closed) return;
+    const top = (side: Map<string, string>, dir: 1 | -1): OrderBookEntry[] => {
+      let runningTotal = 0;
+      const levels = Array.from(side.entries()).map(([price, qty]) => ({ price, qty, p: parseFloat(price) }));
+      return (grouping ? groupLevels(levels, grouping, dir) : levels)
+        .sort((a, b) => (a.p - b.p) * dir)
+        .slice(0, depth)
+        .map(({ price, qty }) => {
+          runningTotal += parseFloat(qty);
+          return { price, qty, total: runningTotal };
+        });
+    };
+    onChange({ bids: top(bids, -1), asks: top(asks, 1) });
+  };
+
+  const scheduleEmit = () => {
+    if (!renderTimer) renderTimer = setTimeout(emit, throttleMs);
+  };
+
+  // Returns false when a gap was detected and a resync has been started.
+  const handle = (update: DepthUpdate): boolean => {
+    if (update.finalUpdateId <= lastUpdateId) return true;
+    if (update.firstUpdateId > lastUpdateId + 1) {
+      resync();
+      return false;
+    }
+    applyLevels(bids, update.bids);
+    applyLevels(asks, update.asks);
+    lastUpdateId = update.finalUpdateId;
+    return true;
+  };
+
+  const resync = async () => {
+    syncing = true;
+    buffer = [];
+    let snapshot: DepthSnapshot | null;
+    try {
+      snapshot = await provider.getDepthSnapshot(symbol, snapshotLimit);
+    } catch (error) {
+      if (closed) return;
+      const dataError = toDataError(error);
+      onError?.(dataError);
+      retryTimer = setTimeout(resync, Math.max(RESYNC_DELAY, dataError.retryAfterMs ?? 0));
+      return;
+    }
+    if (closed) return;
+    // No snapshot is final: the provider has no book for this symbol, so there is nothing to retry
+    if (!snapshot) {
+      unsubscribeDepth();
+      onUnavailable?.();
+      return;
+    }
+    onError?.(null);
+    bids.clear();
+    asks.clear();
+    applyLevels(bids, snapshot.bids);
+    applyLevels(asks, snapshot.asks);
+    lastUpdateId = snapshot.lastUpdateId;
+    const pending = buffer;
+    buffer = [];
+    syncing = false;
+    if (pending.every(handle)) scheduleEmit();
+  };
+
+  const unsubscribeDepth = provider.subscribeDepth(symbol, (update) => {
+    if (syncing) buffer.push(update);
+    else if (handle(update)) scheduleEmit();
+  });
+  resync();
+
+  return () => {
+    closed = true;
+    unsubscribeDepth();
+    if (renderTimer) clearTimeout(renderTimer);
+    if (retryTimer) clearTimeout(retryTimer);
+  };
+}
+
+// ========== Grouping ==========
+
+interface Level {
+  price: string;
+  qty: string;
+  p: number;
+}
+
+// Guards against float error putting a level exactly on a boundary into the wrong bucket
+const EPSILON = 1e-9;
+
+/** Decimals needed to print a grouping step such as 0.01 (2) or 10 (0). */
+export function stepDecimals(step: number): number {
+  return Math.max(0, Math.ceil(-Math.log10(step) - EPSILON));
+}
+
+function groupLevels(levels: Level[], step: number, dir: 1 | -1): Level[] {
+  const decimals = stepDecimals(step);
+  const buckets = new Map<number, number>();
+  levels.forEach(({ qty, p }) => {
+    const bucket = dir === 1 ? Math.ceil(p / step - EPSILON) : Math.floor(p / step + EPSILON);
+    buckets.set(bucket, (buckets.get(bucket) ?? 0) + parseFloat(qty));
+  });
+  return Array.from(buckets, ([bucket, qty]) => {
+    const p = bucket * step;
+    return { price: p.toFixed(decimals), qty: String(qty), p };
+  });
+}
+
+/**
+ * Grouping steps offered for a symbol: its tick size and three coarser
+ * powers of ten. Coarse steps need a deeper snapshot to fill the rows.
+ */
+export function groupingSteps(pricePrecision: number): Array<{ step: number; snapshotLimit: number }> {
+  return [0, 1, 2, 3].map((k) => ({
+    step: Number((10 ** (k - pricePrecision)).toFixed(pricePrecision)),
+    snapshotLimit: k >= 2 ? 5000 : 1000,
+  }));
+}
@@ -0,0 +1,54 @@
+import { CandleType } from "klinecharts";
+import { SYMBOLS, TIMEFRAMES, type SymbolInfo, type Timeframe } from "./utils";
+import { DEFAULT_BAR_TRANSFORM, type BarTransform } from "./transforms";
+
+// ========== Chart Grid ==========
+
+export type GridLayout = 1 | 2 | 4 | 6;
+
+export const GRID_LAYOUTS: GridLayout[] = [1, 2, 4, 6];
+
+export const GRID_CLASSES: Record<GridLayout, string> = {
+  1: "grid-cols-1 grid-rows-1",
+  2: "grid-cols-2 grid-rows-1",
+  4: "grid-cols-2 grid-rows-2",
+  6: "grid-cols-3 grid-rows-2",
+};
+
+/** Panels in the same link group follow each other's symbol. */
+export const LINK_GROUPS: Record<string, string> = {
+  A: "#f0b90b",
+  B: "#1677ff",
+  C: "#e11d74",
+};
+
+/** Everything one chart panel shows; the dashboard keeps one per grid cell. */
+export interface ChartPanelState {
+  symbol: SymbolInfo;
+  timeframe: Timeframe;
+  chartType: CandleType;
+  /** Heikin-Ashi, Renko, range or line break bars built from the candles. */
+  barTransform: BarTransform;
+  mainIndicators: string[];
+  subIndicators: string[];
+  linkGroup: string | null;
+  /** Symbols overlaid as percent change from the first visible bar. */
+  compareSymbols: string[];
+  percentAxis: boolean;
+}
+
+export const DEFAULT_PANEL: ChartPanelState = {
+  symbol: SYMBOLS[0],
+  timeframe: TIMEFRAMES[3], // 1H
+  chartType: CandleType.CandleSolid,
+  barTransform: DEFAULT_BAR_TRANSFORM,
+  mainIndicators: ["MA"],
+  subIndicators: ["VOL"],
+  linkGroup: null,
+  compareSymbols: [],
+  percentAxis: false,
+};
+
+export function isGridLayout(value: number): value is GridLayout {
+  return (GRID_LAYOUTS as number[]).includes(value);
+}
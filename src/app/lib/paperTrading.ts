@@ -0,0 +1,289 @@
+import { registerOverlay, LineType, type OverlayTemplate } from "klinecharts";
+import { loadJSON, saveJSON } from "./storage";
+
+// ========== Types ==========
+
+export type OrderSide = "buy" | "sell";
+export type PaperOrderType = "market" | "limit" | "stop";
+
+/** A resting limit or stop order; market orders fill on placement. */
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: Exclude<PaperOrderType, "market">;
+  qty: number;
+  /** Limit price, or the trigger price of a stop. */
+  price: number;
+  createdAt: number;
+}
+
+/** Net position in one symbol; negative `qty` is short. */
+export interface PaperPosition {
+  symbol: string;
+  qty: number;
+  entryPrice: number;
+}
+
+export interface PaperFill {
+  id: string;
+  orderId: string | null;
+  symbol: string;
+  side: OrderSide;
+  qty: number;
+  price: number;
+  fee: number;
+  /** PnL realized by the part of the fill that reduced a position, before fees. */
+  realizedPnl: number;
+  time: number;
+}
+
+/**
+ * A margin-style account in quote currency: positions carry unrealized PnL
+ * and the cash balance moves by realized PnL and fees only.
+ */
+export interface PaperAccount {
+  balance: number;
+  initialBalance: number;
+  /** Charged on every fill, in % of notional. */
+  feePct: number;
+  orders: PaperOrder[];
+  positions: PaperPosition[];
+  fills: PaperFill[];
+  /** Provider whose trades fill the orders and price the positions; set by the first order placed while flat. */
+  providerId?: string;
+}
+
+export interface OrderDraft {
+  symbol: string;
+  side: OrderSide;
+  type: PaperOrderType;
+  qty: number;
+  price?: number;
+}
+
+export const DEFAULT_ACCOUNT: PaperAccount = {
+  balance: 10000,
+  initialBalance: 10000,
+  feePct: 0.1,
+  orders: [],
+  positions: [],
+  fills: [],
+};
+
+const MAX_FILLS = 200;
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// ========== Accounting ==========
+
+export function unrealizedPnl(position: PaperPosition, price: number): number {
+  return position.qty * (price - position.entryPrice);
+}
+
+/** Balance plus the unrealized PnL of every position priced at `prices` (entry price when unknown). */
+export function accountEquity(account: PaperAccount, prices: Record<string, number>): number {
+  return account.positions.reduce(
+    (sum, p) => sum + unrealizedPnl(p, prices[p.symbol] ?? p.entryPrice),
+    account.balance,
+  );
+}
+
+/**
+ * Books a fill: adds to the position in the same direction at an averaged
+ * entry, or reduces it and realizes PnL, flipping when the fill is larger.
+ */
+function applyFill(
+  account: PaperAccount,
+  fill: { symbol: string; side: OrderSide; qty: number; price: number; orderId: string | null; time: number },
+): PaperAccount {
+  const signed = fill.side === "buy" ? fill.qty : -fill.qty;
+  const existing = account.positions.find((p) => p.symbol === fill.symbol);
+  const held = existing?.qty ?? 0;
+  let realizedPnl = 0;
+  let next: PaperPosition | null;
+
+  if (held === 0 || Math.sign(held) === Math.sign(signed)) {
+    const qty = held + signed;
+    const entryPrice = ((existing?.entryPrice ?? 0) * Math.abs(held) + fill.price * fill.qty) / Math.abs(qty);
+    next = { symbol: fill.symbol, qty, entryPrice };
+  } else {
+    const closing = Math.min(Math.abs(held), fill.qty);
+    realizedPnl = closing * (fill.price - existing!.entryPrice) * Math.sign(held);
+    const qty = held + signed;
+    // Tiny remainders from float maths count as flat
+    next = Math.abs(qty) < 1e-12
+      ? null
+      : { symbol: fill.symbol, qty, entryPrice: Math.sign(qty) === Math.sign(held) ? existing!.entryPrice : fill.price };
+  }
+
+  const fee = fill.qty * fill.price * (account.feePct / 100);
+  const others = account.positions.filter((p) => p.symbol !== fill.symbol);
+  return {
+    ...account,
+    balance: account.balance + realizedPnl - fee,
+    positions: next ? [...others, next] : others,
+    fills: [{ id: newId(), ...fill, fee, realizedPnl }, ...account.fills].slice(0, MAX_FILLS),
+  };
+}
+
+/** True while the account has no open orders or positions tying it to a provider. */
+export function isFlat(account: PaperAccount): boolean {
+  return account.orders.length === 0 && account.positions.length === 0;
+}
+
+/** Whether `providerId`'s prices may trade the account: its own provider's, or any while it is flat. */
+export function tradesOn(account: PaperAccount, providerId: string): boolean {
+  return isFlat(account) || account.providerId === providerId;
+}
+
+/**
+ * Validates and books an order on `providerId`: market orders fill at
+ * `marketPrice`, others rest until matched against that provider's trades.
+ */
+export function placeOrder(
+  account: PaperAccount,
+  draft: OrderDraft,
+  marketPrice: number | undefined,
+  providerId: string,
+): { account: PaperAccount; error?: string } {
+  if (!tradesOn(account, providerId)) return { account, error: "Open orders and positions are on another provider" };
+  if (!(draft.qty > 0)) return { account, error: "Quantity must be positive" };
+  if (accountEquity(account, {}) <= 0) return { account, error: "No equity left; reset the account" };
+  account = { ...account, providerId };
+  if (draft.type === "market") {
+    if (!marketPrice) return { account, error: "No price yet for this symbol" };
+    return {
+      account: applyFill(account, { ...draft, price: marketPrice, orderId: null, time: Date.now() }),
+    };
+  }
+  if (!draft.price || !(draft.price > 0)) return { account, error: "Enter a price" };
+  const order: PaperOrder = {
+    id: newId(),
+    symbol: draft.symbol,
+    side: draft.side,
+    type: draft.type,
+    qty: draft.qty,
+    price: draft.price,
+    createdAt: Date.now(),
+  };
+  return { account: { ...account, orders: [...account.orders, order] } };
+}
+
+export function cancelOrder(account: PaperAccount, id: string): PaperAccount {
+  return { ...account, orders: account.orders.filter((o) => o.id !== id) };
+}
+
+export function amendOrder(account: PaperAccount, id: string, price: number): PaperAccount {
+  if (!(price > 0)) return account;
+  return { ...account, orders: account.orders.map((o) => (o.id === id ? { ...o, price } : o)) };
+}
+
+/** Market order that flattens the position in `symbol`. */
+export function closePosition(account: PaperAccount, symbol: string, price: number): PaperAccount {
+  const position = account.positions.find((p) => p.symbol === symbol);
+  if (!position) return account;
+  return applyFill(account, {
+    symbol,
+    side: position.qty > 0 ? "sell" : "buy",
+    qty: Math.abs(position.qty),
+    price,
+    orderId: null,
+    time: Date.now(),
+  });
+}
+
+/**
+ * Price a resting order fills at when a trade at `price` reaches it. Limits
+ * fill at their price or better, i.e. at the trade price when it gapped
+ * through; stops trigger into market orders at the trade price.
+ */
+export function fillPrice(order: PaperOrder, price: number): number {
+  if (order.type === "stop") return price;
+  return order.side === "buy" ? Math.min(price, order.price) : Math.max(price, order.price);
+}
+
+/**
+ * Fills the symbol's resting orders that a trade at `price` reaches, each at
+ * its `fillPrice`. Returns the same account object when nothing filled.
+ */
+export function matchOrders(
+  account: PaperAccount,
+  symbol: string,
+  price: number,
+  time: number,
+): { account: PaperAccount; filled: PaperOrder[] } {
+  const filled = account.orders.filter((o) => {
+    if (o.symbol !== symbol) return false;
+    if (o.type === "limit") return o.side === "buy" ? price <= o.price : price >= o.price;
+    return o.side === "buy" ? price >= o.price : price <= o.price;
+  });
+  if (filled.length === 0) return { account, filled };
+  let next: PaperAccount = { ...account, orders: account.orders.filter((o) => !filled.includes(o)) };
+  filled.forEach((o) => {
+    next = applyFill(next, {
+      symbol,
+      side: o.side,
+      qty: o.qty,
+      price: fillPrice(o, price),
+      orderId: o.id,
+      time,
+    });
+  });
+  return { account: next, filled };
+}
+
+// ========== Chart Lines ==========
+
+export const PAPER_GROUP = "paperTrading";
+
+export interface PaperLineData {
+  label: string;
+  color: string;
+  /** Order id for draggable order lines; absent on the locked entry line. */
+  orderId?: string;
+}
+
+/** Horizontal line with a label at the right edge; order lines can be dragged to a new price. */
+const paperLine: OverlayTemplate = {
+  name: "paperLine",
+  totalStep: 2,
+  needDefaultYAxisFigure: true,
+  createPointFigures: ({ overlay, coordinates, bounding }) => {
+    const { label, color, orderId } = overlay.extendData as PaperLineData;
+    const y = coordinates[0].y;
+    return [
+      {
+        type: "line",
+        attrs: { coordinates: [{ x: 0, y }, { x: bounding.width, y }] },
+        styles: { style: orderId ? LineType.Dashed : LineType.Solid, color, dashedValue: [6, 3] },
+      },
+      {
+        type: "text",
+        attrs: { x: bounding.width - 4, y, text: label, align: "right", baseline: "bottom" },
+        styles: { color, backgroundColor: "transparent", size: 11 },
+        ignoreEvent: true,
+      },
+    ];
+  },
+};
+
+/** Registers the position and order line overlay. */
+export function registerPaperOverlay(): void {
+  registerOverlay(paperLine);
+}
+
+// ========== Persistence ==========
+
+const ACCOUNT_KEY = "paperAccount";
+// Accounts saved before they recorded a provider are taken to be on Binance, the default venue
+const LEGACY_PROVIDER_ID = "binance";
+
+export function loadPaperAccount(): PaperAccount {
+  const account: PaperAccount = { ...DEFAULT_ACCOUNT, ...loadJSON<Partial<PaperAccount>>(ACCOUNT_KEY, {}) };
+  return isFlat(account) || account.providerId ? account : { ...account, providerId: LEGACY_PROVIDER_ID };
+}
+
+export function savePaperAccount(account: PaperAccount): void {
+  saveJSON(ACCOUNT_KEY, account);
+}
@@ -0,0 +1,229 @@
+import type { KLineData } from "klinecharts";
+import { SYMBOLS, decimalsOf, type SymbolInfo, type TickerData } from "../utils";
+import { createStreamConnection } from "../connection";
+import { DataError } from "./errors";
+import type { DataProvider, DepthSnapshot, DepthUpdate, HistoryOptions, MiniTicker, Trade } from "./types";
+
+// ========== Binance ==========
+
+export interface BinanceProviderOptions {
+  id?: string;
+  name?: string;
+  restUrl?: string;
+  wsUrl?: string;
+}
+
+const BINANCE_API = "https://api.binance.com/api/v3";
+const BINANCE_WS = "wss://stream.binance.com:9443";
+
+/**
+ * Binance REST + WebSocket provider. The URLs can be pointed at any server
+ * speaking the same API (e.g. a local stand-in during development).
+ */
+export function createBinanceProvider(options: BinanceProviderOptions = {}): DataProvider {
+  const restUrl = options.restUrl ?? BINANCE_API;
+  const connection = createStreamConnection(options.wsUrl ?? BINANCE_WS);
+
+  let symbolsRequest: Promise<SymbolInfo[]> | null = null;
+
+  // Every REST call goes through here so failures reach callers as typed errors
+  async function request<T>(path: string): Promise<T> {
+    let res: Response;
+    try {
+      res = await fetch(`${restUrl}${path}`);
+    } catch {
+      throw new DataError("network", "Could not reach the exchange; check your connection");
+    }
+    // 418 follows ignored 429s, when the IP has been banned for a while
+    if (res.status === 429 || res.status === 418) {
+      const seconds = Number(res.headers.get("Retry-After"));
+      throw new DataError("rate_limit", "Too many requests to the exchange", seconds > 0 ? seconds * 1000 : undefined);
+    }
+    let body: any;
+    try {
+      body = await res.json();
+    } catch {
+      throw new DataError("server", `Unexpected response from the exchange (HTTP ${res.status})`);
+    }
+    if (!res.ok) {
+      // -1121: "Invalid symbol."
+      if (body?.code === -1121) throw new DataError("invalid_symbol", "The exchange does not list this symbol");
+      throw new DataError("server", body?.msg ?? `Request failed (HTTP ${res.status})`);
+    }
+    return body as T;
+  }
+
+  // exchangeInfo is large and rarely changes, so it is fetched once per provider;
+  // if it fails, the built-in majors (real listings) stand in until the next call
+  function getSymbols(): Promise<SymbolInfo[]> {
+    symbolsRequest ??= fetchSymbols().catch(() => {
+      symbolsRequest = null;
+      return SYMBOLS;
+    });
+    return symbolsRequest;
+  }
+
+  async function fetchSymbols(): Promise<SymbolInfo[]> {
+    const data = await request<any>("/exchangeInfo?symbolStatus=TRADING");
+    const known = new Map(SYMBOLS.map((s) => [s.symbol, s]));
+    const list: SymbolInfo[] = data.symbols
+      .filter((s: any) => s.status === "TRADING" && s.isSpotTradingAllowed !== false)
+      .map((s: any) => {
+        const filter = (type: string) => s.filters?.find((f: any) => f.filterType === type);
+        return {
+          symbol: s.symbol,
+          name: known.get(s.symbol)?.name ?? s.baseAsset,
+          pair: `${s.baseAsset}/${s.quoteAsset}`,
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          pricePrecision: filter("PRICE_FILTER") ? decimalsOf(filter("PRICE_FILTER").tickSize) : s.quotePrecision,
+          quantityPrecision: filter("LOT_SIZE") ? decimalsOf(filter("LOT_SIZE").stepSize) : s.baseAssetPrecision,
+        };
+      });
+    if (list.length === 0) return SYMBOLS;
+    // Keep the familiar majors on top; the rest follow alphabetically
+    const rank = (s: SymbolInfo) => {
+      const i = SYMBOLS.findIndex((k) => k.symbol === s.symbol);
+      return i === -1 ? SYMBOLS.length : i;
+    };
+    return list.sort((a, b) => rank(a) - rank(b) || a.symbol.localeCompare(b.symbol));
+  }
+
+  async function fetchKlines(
+    symbol: string,
+    interval: string,
+    { limit = 500, startTime, endTime }: HistoryOptions = {},
+  ): Promise<KLineData[]> {
+    const range = (startTime !== undefined ? `&startTime=${startTime}` : "")
+      + (endTime !== undefined ? `&endTime=${endTime}` : "");
+    const data = await request<any[][]>(`/klines?symbol=${symbol}&interval=${interval}&limit=${limit}${range}`);
+    return data.map((d: any[]) => ({
+      timestamp: d[0],
+      open: parseFloat(d[1]),
+      high: parseFloat(d[2]),
+      low: parseFloat(d[3]),
+      close: parseFloat(d[4]),
+      volume: parseFloat(d[5]),
+      turnover: parseFloat(d[7]),
+    }));
+  }
+
+  async function getTicker(symbol: string): Promise<TickerData | null> {
+    const d = await request<any>(`/ticker/24hr?symbol=${symbol}`);
+    return {
+      price: d.lastPrice,
+      priceChange: d.priceChange,
+      priceChangePercent: d.priceChangePercent,
+      high: d.highPrice,
+      low: d.lowPrice,
+      volume: d.volume,
+      quoteVolume: d.quoteVolume,
+    };
+  }
+
+  async function getDepthSnapshot(symbol: string, limit: number = 1000): Promise<DepthSnapshot | null> {
+    const data = await request<any>(`/depth?symbol=${symbol}&limit=${limit}`);
+    return { lastUpdateId: data.lastUpdateId, bids: data.bids, asks: data.asks };
+  }
+
+  function subscribeKline(
+    symbol: string,
+    interval: string,
+    onData: (data: KLineData) => void,
+  ) {
+    let last: KLineData | null = null;
+    let backfilling = false;
+    let queued: KLineData[] = [];
+    let closed = false;
+
+    const emit = (bar: KLineData) => {
+      if (last && bar.timestamp < last.timestamp) return;
+      last = bar;
+      onData(bar);
+    };
+
+    // After a reconnect, replay the bars missed while offline before resuming live updates
+    const backfill = async () => {
+      if (!last || backfilling) return;
+      backfilling = true;
+      try {
+        const missed = await fetchKlines(symbol, interval, { startTime: last.timestamp, limit: 1000 });
+        if (!closed) missed.forEach(emit);
+      } catch {
+        // Keep streaming; the next live bar still updates the chart
+      }
+      backfilling = false;
+      const pending = queued;
+      queued = [];
+      if (!closed) pending.forEach(emit);
+    };
+
+    const unsubscribe = connection.subscribe(`${symbol.toLowerCase()}@kline_${interval}`, (msg) => {
+      const k = msg.k;
+      if (!k) return;
+      const bar = {
+        timestamp: k.t,
+        open: parseFloat(k.o),
+        high: parseFloat(k.h),
+        low: parseFloat(k.l),
+        close: parseFloat(k.c),
+        volume: parseFloat(k.v),
+        turnover: parseFloat(k.q),
+      };
+      if (backfilling) queued.push(bar);
+      else emit(bar);
+    }, backfill);
+
+    return () => {
+      closed = true;
+      unsubscribe();
+    };
+  }
+
+  function subscribeDepth(symbol: string, onUpdate: (update: DepthUpdate) => void) {
+    // Missed diffs after a reconnect surface as a sequence gap, which resyncs the book
+    return connection.subscribe(`${symbol.toLowerCase()}@depth@100ms`, (msg) => {
+      if (msg.e === "depthUpdate") {
+        onUpdate({ firstUpdateId: msg.U, finalUpdateId: msg.u, bids: msg.b, asks: msg.a });
+      }
+    });
+  }
+
+  function subscribeTrades(symbol: string, onTrade: (trade: Trade) => void) {
+    return connection.subscribe(`${symbol.toLowerCase()}@aggTrade`, (msg) => {
+      if (msg.e !== "aggTrade") return;
+      // m: the buyer was the maker, i.e. the taker sold
+      onTrade({ id: msg.a, price: parseFloat(msg.p), qty: parseFloat(msg.q), time: msg.T, side: msg.m ? "sell" : "buy" });
+    });
+  }
+
+  function subscribeMiniTickers(onUpdate: (tickers: MiniTicker[]) => void) {
+    return connection.subscribe("!miniTicker@arr", (msg) => {
+      if (!Array.isArray(msg)) return;
+      onUpdate(msg.map((t: any) => ({
+        symbol: t.s,
+        lastPrice: parseFloat(t.c),
+        openPrice: parseFloat(t.o),
+        high: parseFloat(t.h),
+        low: parseFloat(t.l),
+        volume: parseFloat(t.v),
+        quoteVolume: parseFloat(t.q),
+      })));
+    });
+  }
+
+  return {
+    id: options.id ?? "binance",
+    name: options.name ?? "Binance",
+    cacheHistory: true,
+    getSymbols,
+    getHistory: fetchKlines,
+    getTicker,
+    getDepthSnapshot,
+    subscribeKline,
+    subscribeDepth,
+    subscribeTrades,
+    subscribeMiniTickers,
+    subscribeStatus: connection.subscribeStatus,
+  };
+}
@@ -0,0 +1,30 @@
+// ========== Data Errors ==========
+
+export type DataErrorKind = "rate_limit" | "network" | "invalid_symbol" | "server";
+
+/** A failed market data request, classified so the UI can explain it and offer a way out. */
+export class DataError extends Error {
+  constructor(public kind: DataErrorKind, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = "DataError";
+  }
+}
+
+export const DATA_ERROR_TITLES: Record<DataErrorKind, string> = {
+  rate_limit: "Rate limited",
+  network: "Network error",
+  invalid_symbol: "Unknown symbol",
+  server: "Data source error",
+};
+
+/** Anything thrown while loading data, as a DataError; errors that aren't one already read as server errors. */
+export function toDataError(error: unknown): DataError {
+  if (error instanceof DataError) return error;
+  return new DataError("server", error instanceof Error ? error.message : String(error));
+}
+
+/** One-line explanation for toasts and banners, e.g. "Rate limited: retry in 30s". */
+export function describeDataError(error: DataError): string {
+  const wait = error.retryAfterMs ? ` (retry in ${Math.ceil(error.retryAfterMs / 1000)}s)` : "";
+  return `${DATA_ERROR_TITLES[error.kind]}: ${error.message}${wait}`;
+}
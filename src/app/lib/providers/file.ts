@@ -0,0 +1,81 @@
+import type { KLineData } from "klinecharts";
+import { datasetSymbol, loadDatasets } from "../importData";
+import { resample, type BarTimezone } from "../timeframes";
+import { intervalToMs, type TickerData } from "../utils";
+import type { DataProvider, HistoryOptions } from "./types";
+
+// ========== Imported Files ==========
+
+export const FILE_PROVIDER_ID = "file";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Bars of an imported dataset at `interval`: as stored (also when no interval
+ * is given), or aggregated in `timezone` when it is a multiple of the file's.
+ */
+async function barsFor(symbol: string, interval?: string, timezone?: BarTimezone): Promise<KLineData[]> {
+  const dataset = (await loadDatasets()).find((d) => d.symbol === symbol);
+  if (!dataset) return [];
+  const base = intervalToMs(dataset.interval);
+  const step = interval ? intervalToMs(interval) : base;
+  if (!interval || step === base) return dataset.bars;
+  return step > base && step % base === 0 ? resample(dataset.bars, interval, timezone) : [];
+}
+
+/**
+ * Serves symbols imported from local CSV/JSON files. History comes from the
+ * stored bars; there is no order book and every realtime stream is silent.
+ */
+export function createFileProvider(): DataProvider {
+  async function getHistory(
+    symbol: string,
+    interval: string,
+    { limit = 500, startTime, endTime, timezone }: HistoryOptions = {},
+  ): Promise<KLineData[]> {
+    const bars = await barsFor(symbol, interval, timezone);
+    if (startTime !== undefined) {
+      return bars.filter((b) => b.timestamp >= startTime && (endTime === undefined || b.timestamp <= endTime)).slice(0, limit);
+    }
+    const upTo = endTime === undefined ? bars : bars.filter((b) => b.timestamp <= endTime);
+    return upTo.slice(-limit);
+  }
+
+  // Figures over the last day of the file rather than the last day of real time
+  async function getTicker(symbol: string): Promise<TickerData | null> {
+    const bars = await barsFor(symbol);
+    const last = bars[bars.length - 1];
+    if (!last) return null;
+    const day = bars.filter((b) => b.timestamp > last.timestamp - DAY);
+    const open = day[0].open;
+    const volume = day.reduce((sum, b) => sum + (b.volume ?? 0), 0);
+    return {
+      price: String(last.close),
+      priceChange: String(last.close - open),
+      priceChangePercent: String(open ? ((last.close - open) / open) * 100 : 0),
+      high: String(Math.max(...day.map((b) => b.high))),
+      low: String(Math.min(...day.map((b) => b.low))),
+      volume: String(volume),
+      quoteVolume: String(day.reduce((sum, b) => sum + (b.turnover ?? 0), 0)),
+    };
+  }
+
+  const silent = () => () => {};
+
+  return {
+    id: FILE_PROVIDER_ID,
+    name: "Imported files",
+    getSymbols: async () => (await loadDatasets()).map(datasetSymbol),
+    getHistory,
+    getTicker,
+    getDepthSnapshot: async () => null,
+    subscribeKline: silent,
+    subscribeDepth: silent,
+    subscribeTrades: silent,
+    subscribeMiniTickers: silent,
+    subscribeStatus: (listener) => {
+      listener("offline");
+      return () => {};
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { createBinanceProvider } from "./binance";
+import { createMockProvider } from "./mock";
+import { createFileProvider } from "./file";
+import { withResampling } from "./resampled";
+import type { DataProvider } from "./types";
+
+export type {
+  DataProvider, HistoryOptions, Unsubscribe, PriceLevel, DepthSnapshot, DepthUpdate, MiniTicker, Trade,
+} from "./types";
+export type { ConnectionStatus } from "../connection";
+export { DataError, DATA_ERROR_TITLES, describeDataError, toDataError, type DataErrorKind } from "./errors";
+export { FILE_PROVIDER_ID } from "./file";
+
+// ========== Registry ==========
+
+const LOCAL_REST_URL = process.env.NEXT_PUBLIC_LOCAL_REST_URL;
+const LOCAL_WS_URL = process.env.NEXT_PUBLIC_LOCAL_WS_URL;
+
+// Live providers also serve custom intervals, built from their native bars
+export const PROVIDERS: DataProvider[] = [
+  createBinanceProvider(),
+  createMockProvider(),
+  ...(LOCAL_REST_URL
+    ? [createBinanceProvider({
+        id: "local",
+        name: "Local server",
+        restUrl: LOCAL_REST_URL,
+        wsUrl: LOCAL_WS_URL ?? LOCAL_REST_URL.replace(/^http/, "ws"),
+      })]
+    : []),
+].map(withResampling).concat(
+  // Imported files aggregate their own bars to any multiple of the file's interval
+  createFileProvider(),
+);
+
+export const DEFAULT_PROVIDER_ID = process.env.NEXT_PUBLIC_DATA_PROVIDER ?? "binance";
+
+export function getProvider(id: string): DataProvider {
+  return PROVIDERS.find((p) => p.id === id) ?? PROVIDERS[0];
+}
@@ -0,0 +1,239 @@
+import type { KLineData } from "klinecharts";
+import { SYMBOLS, intervalToMs, type TickerData } from "../utils";
+import type { DataProvider, DepthSnapshot, DepthUpdate, HistoryOptions, MiniTicker, PriceLevel, Trade } from "./types";
+
+// ========== Mock ==========
+
+const BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 65000,
+  ETHUSDT: 3200,
+  SOLUSDT: 150,
+  BNBUSDT: 580,
+  XRPUSDT: 0.52,
+  ADAUSDT: 0.45,
+  DOGEUSDT: 0.15,
+  SUIUSDT: 1.1,
+};
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const DEPTH_TICK_MS = 250;
+const DEPTH_LEVELS = 40;
+const TRADE_TICK_MS = 200;
+
+function hashString(s: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Deterministic value in [0, 1) for a (seed, n) pair.
+function noise(seed: number, n: number): number {
+  let t = (seed ^ Math.imul(n | 0, 2654435761)) + 0x6d2b79f5;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Synthetic listing date; history stops here like a real exchange would.
+function listedAt(symbol: string): number {
+  return Date.UTC(2020, 0, 1) + (hashString(symbol) % 1000) * DAY;
+}
+
+/**
+ * Price as a pure function of time, so every page of history, the live feed
+ * and the ticker agree with each other across reloads.
+ */
+function priceAt(symbol: string, timestamp: number): number {
+  const seed = hashString(symbol);
+  const base = BASE_PRICES[symbol] ?? 1 + (seed % 1000);
+  const phase = (seed % 997) * DAY;
+  const t = timestamp + phase;
+  const trend = 0.12 * Math.sin(t / (90 * DAY)) + 0.05 * Math.sin(t / (11 * DAY));
+  const swing = 0.015 * Math.sin(t / (7 * HOUR)) + 0.006 * Math.sin(t / (47 * 60 * 1000));
+  const jitter = 0.002 * (noise(seed, Math.floor(t / 60000)) - 0.5);
+  return base * (1 + trend + swing + jitter);
+}
+
+function buildBar(symbol: string, timestamp: number, step: number, until: number): KLineData {
+  const seed = hashString(symbol);
+  const end = Math.min(timestamp + step, until);
+  const open = priceAt(symbol, timestamp);
+  const close = priceAt(symbol, end);
+  const samples = 8;
+  let high = Math.max(open, close);
+  let low = Math.min(open, close);
+  for (let i = 1; i < samples; i++) {
+    const p = priceAt(symbol, timestamp + ((end - timestamp) * i) / samples);
+    high = Math.max(high, p);
+    low = Math.min(low, p);
+  }
+  const bucket = Math.floor(timestamp / 60000);
+  const volume = (50 + noise(seed + 1, bucket) * 450) * Math.sqrt(step / 60000) * ((end - timestamp) / step);
+  return {
+    timestamp,
+    open, high, low, close, volume,
+    turnover: ((open + close) / 2) * volume,
+  };
+}
+
+function priceTick(symbol: string): number {
+  const base = BASE_PRICES[symbol] ?? priceAt(symbol, 0);
+  return Math.pow(10, Math.floor(Math.log10(base)) - 4);
+}
+
+/**
+ * Book state at depth update `id`: a fixed number of levels on a price grid
+ * around the current mid, plus removals for levels the mid has moved across.
+ */
+function buildDepth(symbol: string, id: number): Omit<DepthUpdate, "firstUpdateId" | "finalUpdateId"> {
+  const seed = hashString(symbol);
+  const tick = priceTick(symbol);
+  const decimals = Math.max(0, -Math.round(Math.log10(tick)));
+  const mid = Math.round(priceAt(symbol, id * DEPTH_TICK_MS) / tick);
+  const level = (steps: number, qty: number): PriceLevel => [((mid + steps) * tick).toFixed(decimals), qty.toFixed(4)];
+  const bids: PriceLevel[] = [];
+  const asks: PriceLevel[] = [];
+  for (let i = 1; i <= DEPTH_LEVELS; i++) {
+    bids.push(level(-i, 0.05 + noise(seed + 2, id * 100 + i) * 5 * Math.sqrt(i)));
+    asks.push(level(i, 0.05 + noise(seed + 3, id * 100 + i) * 5 * Math.sqrt(i)));
+    bids.push(level(i - 1, 0));
+    asks.push(level(1 - i, 0));
+  }
+  return { bids, asks };
+}
+
+/**
+ * Offline provider producing deterministic synthetic data, for development
+ * and tests without network access.
+ */
+export function createMockProvider(): DataProvider {
+  async function getHistory(
+    symbol: string,
+    interval: string,
+    { limit = 500, startTime, endTime }: HistoryOptions = {},
+  ): Promise<KLineData[]> {
+    const step = intervalToMs(interval);
+    const now = Date.now();
+    const listed = Math.ceil(listedAt(symbol) / step) * step;
+    let last = Math.floor(Math.min(endTime ?? now, now) / step) * step;
+    let first = Math.max(last - (limit - 1) * step, listed);
+    // Like the exchange, a start time pages forward from that bar
+    if (startTime !== undefined) {
+      first = Math.max(Math.ceil(startTime / step) * step, listed);
+      last = Math.min(last, first + (limit - 1) * step);
+    }
+    const data: KLineData[] = [];
+    for (let ts = first; ts <= last; ts += step) {
+      data.push(buildBar(symbol, ts, step, now));
+    }
+    return data;
+  }
+
+  function miniTickerAt(symbol: string, now: number): MiniTicker {
+    const price = priceAt(symbol, now);
+    const open = priceAt(symbol, now - DAY);
+    let high = Math.max(price, open);
+    let low = Math.min(price, open);
+    let volume = 0;
+    for (let ts = now - DAY; ts < now; ts += HOUR) {
+      const bar = buildBar(symbol, ts, HOUR, now);
+      high = Math.max(high, bar.high);
+      low = Math.min(low, bar.low);
+      volume += bar.volume ?? 0;
+    }
+    return { symbol, lastPrice: price, openPrice: open, high, low, volume, quoteVolume: volume * price };
+  }
+
+  async function getTicker(symbol: string): Promise<TickerData> {
+    const t = miniTickerAt(symbol, Date.now());
+    return {
+      price: String(t.lastPrice),
+      priceChange: String(t.lastPrice - t.openPrice),
+      priceChangePercent: String(((t.lastPrice - t.openPrice) / t.openPrice) * 100),
+      high: String(t.high),
+      low: String(t.low),
+      volume: String(t.volume),
+      quoteVolume: String(t.quoteVolume),
+    };
+  }
+
+  async function getDepthSnapshot(symbol: string, limit: number = DEPTH_LEVELS): Promise<DepthSnapshot> {
+    const id = Math.floor(Date.now() / DEPTH_TICK_MS);
+    const { bids, asks } = buildDepth(symbol, id);
+    const live = (levels: PriceLevel[]) => levels.filter(([, qty]) => parseFloat(qty) > 0).slice(0, limit);
+    return { lastUpdateId: id, bids: live(bids), asks: live(asks) };
+  }
+
+  function subscribeKline(
+    symbol: string,
+    interval: string,
+    onData: (data: KLineData) => void,
+  ) {
+    const step = intervalToMs(interval);
+    const timer = setInterval(() => {
+      const now = Date.now();
+      onData(buildBar(symbol, Math.floor(now / step) * step, step, now));
+    }, 1000);
+    return () => { clearInterval(timer); };
+  }
+
+  function subscribeDepth(symbol: string, onUpdate: (update: DepthUpdate) => void) {
+    let lastId = Math.floor(Date.now() / DEPTH_TICK_MS);
+    const timer = setInterval(() => {
+      const id = Math.floor(Date.now() / DEPTH_TICK_MS);
+      if (id === lastId) return;
+      onUpdate({ firstUpdateId: lastId + 1, finalUpdateId: id, ...buildDepth(symbol, id) });
+      lastId = id;
+    }, DEPTH_TICK_MS);
+    return () => { clearInterval(timer); };
+  }
+
+  // A trade most ticks, sized from the same deterministic noise as everything else
+  function subscribeTrades(symbol: string, onTrade: (trade: Trade) => void) {
+    const seed = hashString(symbol);
+    const precision = SYMBOLS.find((s) => s.symbol === symbol)?.pricePrecision ?? 4;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const id = Math.floor(now / TRADE_TICK_MS);
+      const r = noise(seed ^ 0x5bd1e995, id);
+      if (r < 0.3) return;
+      const notional = 50 * Math.exp(r * r * 9);
+      // Trades print on the tick grid, so consecutive prints can share a price
+      const price = Number(priceAt(symbol, now).toFixed(precision));
+      onTrade({ id, price, qty: notional / price, time: now, side: noise(seed, id) < 0.5 ? "sell" : "buy" });
+    }, TRADE_TICK_MS);
+    return () => { clearInterval(timer); };
+  }
+
+  function subscribeMiniTickers(onUpdate: (tickers: MiniTicker[]) => void) {
+    const push = () => {
+      const now = Date.now();
+      onUpdate(SYMBOLS.map((s) => miniTickerAt(s.symbol, now)));
+    };
+    push();
+    const timer = setInterval(push, 1000);
+    return () => { clearInterval(timer); };
+  }
+
+  return {
+    id: "mock",
+    name: "Demo data (simulated)",
+    demo: true,
+    getSymbols: async () => SYMBOLS,
+    getHistory,
+    getTicker,
+    getDepthSnapshot,
+    subscribeKline,
+    subscribeDepth,
+    subscribeTrades,
+    subscribeMiniTickers,
+    subscribeStatus: (listener) => {
+      listener("live");
+      return () => {};
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import type { KLineData } from "klinecharts";
+import { baseIntervalFor, bucketOf, needsResampling, resample, type BarTimezone } from "../timeframes";
+import { intervalToMs, mergeKlines } from "../utils";
+import type { DataProvider, HistoryOptions } from "./types";
+
+// ========== Resampling ==========
+
+/** Most base bars one provider request returns. */
+const BASE_PAGE_SIZE = 1000;
+/** Most base bars fetched for one page of resampled history. */
+const MAX_BASE_BARS = 10000;
+
+/**
+ * Wraps a provider so it also serves intervals it has no native bars for,
+ * such as 45m or 3D. Those are aggregated from the coarsest native interval
+ * that nests inside them, both for history and for the live stream, with
+ * bars opening in the requested timezone; every other call passes straight
+ * through.
+ */
+export function withResampling(provider: DataProvider): DataProvider {
+  // Pages back from `endTime` until `count` base bars are in or history runs out
+  async function baseBefore(symbol: string, base: string, count: number, endTime?: number) {
+    let bars: KLineData[] = [];
+    let cursor = endTime;
+    while (bars.length < count) {
+      const page = await provider.getHistory(symbol, base, { endTime: cursor, limit: BASE_PAGE_SIZE });
+      const older = page.filter((b) => bars.length === 0 || b.timestamp < bars[0].timestamp);
+      bars = mergeKlines(older, bars);
+      if (page.length < BASE_PAGE_SIZE || older.length === 0) return { bars, exhausted: true };
+      cursor = bars[0].timestamp - 1;
+    }
+    return { bars, exhausted: false };
+  }
+
+  // Pages forward from `startTime` until `count` base bars are in, `endTime` is passed or history runs out
+  async function baseFrom(symbol: string, base: string, count: number, startTime: number, endTime?: number) {
+    let bars: KLineData[] = [];
+    let cursor = startTime;
+    while (bars.length < count) {
+      const page = await provider.getHistory(symbol, base, { startTime: cursor, endTime, limit: BASE_PAGE_SIZE });
+      const last = bars[bars.length - 1];
+      const newer = page.filter((b) => !last || b.timestamp > last.timestamp);
+      bars = mergeKlines(bars, newer);
+      if (page.length < BASE_PAGE_SIZE || newer.length === 0) break;
+      cursor = bars[bars.length - 1].timestamp + 1;
+    }
+    return bars;
+  }
+
+  async function getHistory(
+    symbol: string,
+    interval: string,
+    options: HistoryOptions = {},
+  ): Promise<KLineData[]> {
+    if (!needsResampling(interval)) return provider.getHistory(symbol, interval, options);
+    const { limit = 500, startTime, endTime, timezone } = options;
+    const base = baseIntervalFor(interval, timezone);
+    // One spare bar covers a partial bucket at the far end
+    const ratio = Math.ceil(intervalToMs(interval) / intervalToMs(base));
+    const count = Math.min((limit + 1) * ratio, MAX_BASE_BARS);
+
+    if (startTime !== undefined) {
+      const bars = resample(await baseFrom(symbol, base, count, startTime, endTime), interval, timezone);
+      return bars.filter((b) => b.timestamp >= startTime).slice(0, limit);
+    }
+    const { bars: baseBars, exhausted } = await baseBefore(symbol, base, count, endTime);
+    const bars = resample(baseBars, interval, timezone);
+    // The oldest bar is missing its start unless it began exactly on a bucket or history ran out
+    if (!exhausted && bars.length > 0 && baseBars[0].timestamp !== bars[0].timestamp) bars.shift();
+    return bars.slice(-limit);
+  }
+
+  function subscribeKline(symbol: string, interval: string, onData: (data: KLineData) => void, timezone?: BarTimezone) {
+    if (!needsResampling(interval)) return provider.subscribeKline(symbol, interval, onData);
+    const base = baseIntervalFor(interval, timezone);
+    let bucket: number | null = null;
+    // Base bars of the forming bucket, by opening time
+    let parts = new Map<number, KLineData>();
+    let seeding = false;
+    let closed = false;
+
+    const emit = () => {
+      if (seeding || parts.size === 0) return;
+      const sorted = Array.from(parts.values()).sort((a, b) => a.timestamp - b.timestamp);
+      onData(resample(sorted, interval, timezone)[0]);
+    };
+
+    // The stream only carries the latest base bar, so the ones before it in the
+    // bucket are fetched before the forming bar is first shown
+    const seed = async (start: number, before: number) => {
+      seeding = true;
+      // If the fetch fails the bucket builds from the streamed base bars alone
+      const earlier = await provider
+        .getHistory(symbol, base, { startTime: start, endTime: before - 1, limit: BASE_PAGE_SIZE })
+        .catch(() => [] as KLineData[]);
+      if (closed || bucket !== start) return;
+      earlier.forEach((b) => {
+        if (b.timestamp < before && !parts.has(b.timestamp)) parts.set(b.timestamp, b);
+      });
+      seeding = false;
+      emit();
+    };
+
+    const unsubscribe = provider.subscribeKline(symbol, base, (bar) => {
+      const start = bucketOf(bar.timestamp, interval, timezone);
+      if (bucket !== null && start < bucket) return;
+      if (start !== bucket) {
+        bucket = start;
+        parts = new Map();
+        seeding = false;
+        if (bar.timestamp > start) seed(start, bar.timestamp);
+      }
+      parts.set(bar.timestamp, bar);
+      emit();
+    });
+
+    return () => {
+      closed = true;
+      unsubscribe();
+    };
+  }
+
+  return { ...provider, getHistory, subscribeKline };
+}
@@ -0,0 +1,87 @@
+import type { KLineData } from "klinecharts";
+import type { SymbolInfo, TickerData } from "../utils";
+import type { ConnectionStatus } from "../connection";
+import type { BarTimezone } from "../timeframes";
+
+// ========== Data Provider ==========
+
+export type Unsubscribe = () => void;
+
+export interface HistoryOptions {
+  limit?: number;
+  /** Only return bars opening at or after this time. */
+  startTime?: number;
+  /** Only return bars opening at or before this time, for paging back through history. */
+  endTime?: number;
+  /** Zone that bars of resampled intervals open in; UTC when omitted. Native intervals ignore it. */
+  timezone?: BarTimezone;
+}
+
+/** A `[price, quantity]` pair as sent by the exchange; quantity "0" removes the level. */
+export type PriceLevel = [string, string];
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+/** A depth diff covering update ids `firstUpdateId..finalUpdateId`. */
+export interface DepthUpdate {
+  firstUpdateId: number;
+  finalUpdateId: number;
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+/** Rolling 24h statistics for one symbol, as pushed by the all-market ticker stream. */
+export interface MiniTicker {
+  symbol: string;
+  lastPrice: number;
+  openPrice: number;
+  high: number;
+  low: number;
+  volume: number;
+  quoteVolume: number;
+}
+
+/** One aggregated trade; `side` is the taker's side, so "buy" lifted the offer. */
+export interface Trade {
+  id: number;
+  price: number;
+  qty: number;
+  time: number;
+  side: "buy" | "sell";
+}
+
+/**
+ * A source of market data for the dashboard. Binance is the default; other
+ * venues or a local stand-in server plug in by implementing this interface
+ * and registering in `./index.ts`. Failed requests reject with a `DataError`.
+ */
+export interface DataProvider {
+  id: string;
+  name: string;
+  /** Serves simulated prices; every view of it is labelled as demo data. */
+  demo?: boolean;
+  /** Keep recent history in the local candle cache; off for providers that are local already. */
+  cacheHistory?: boolean;
+  getSymbols: () => Promise<SymbolInfo[]>;
+  getHistory: (symbol: string, interval: string, options?: HistoryOptions) => Promise<KLineData[]>;
+  getTicker: (symbol: string) => Promise<TickerData | null>;
+  /** Resolves to null when the provider has no order book for the symbol, e.g. imported files. */
+  getDepthSnapshot: (symbol: string, limit?: number) => Promise<DepthSnapshot | null>;
+  /** Bars of resampled intervals open in `timezone`, as in `HistoryOptions`. */
+  subscribeKline: (
+    symbol: string,
+    interval: string,
+    onData: (data: KLineData) => void,
+    timezone?: BarTimezone,
+  ) => Unsubscribe;
+  subscribeDepth: (symbol: string, onUpdate: (update: DepthUpdate) => void) => Unsubscribe;
+  subscribeTrades: (symbol: string, onTrade: (trade: Trade) => void) => Unsubscribe;
+  /** 24h tickers for every symbol; each push carries only the symbols that changed. */
+  subscribeMiniTickers: (onUpdate: (tickers: MiniTicker[]) => void) => Unsubscribe;
+  /** Realtime connection health; the listener is called immediately with the current status. */
+  subscribeStatus: (listener: (status: ConnectionStatus) => void) => Unsubscribe;
+}
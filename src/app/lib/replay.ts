@@ -0,0 +1,21 @@
+// ========== Bar Replay ==========
+
+/**
+ * `picking` waits for a click on the bar to start from; `paused` and
+ * `playing` hide every bar after the replay position.
+ */
+export type ReplayStatus = "off" | "picking" | "paused" | "playing";
+
+export interface ReplaySpeed {
+  label: string;
+  /** Delay between revealed bars while playing. */
+  intervalMs: number;
+}
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [
+  { label: "1x", intervalMs: 1000 },
+  { label: "2x", intervalMs: 500 },
+  { label: "5x", intervalMs: 200 },
+  { label: "10x", intervalMs: 100 },
+  { label: "25x", intervalMs: 40 },
+];
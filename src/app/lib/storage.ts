@@ -0,0 +1,88 @@
+// ========== Local Storage ==========
+
+const STORAGE_PREFIX = "klinecharts-pro:";
+
+export function loadJSON<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON(key: string, value: unknown): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled; the in-memory state still works for this session
+  }
+}
+
+export function removeJSON(key: string): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // ignore
+  }
+}
+
+// ========== IndexedDB ==========
+// For data that outgrows localStorage's few megabytes: cached candles and imported files
+
+const DB_NAME = "klinecharts-pro";
+const DB_VERSION = 2;
+export const CANDLES_STORE = "candles";
+export const DATASETS_STORE = "datasets";
+
+let dbRequest: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * The app's database, or null where IndexedDB is unavailable (server render,
+ * some private windows); callers then work from memory alone.
+ */
+export function openDatabase(): Promise<IDBDatabase | null> {
+  dbRequest ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CANDLES_STORE)) {
+        db.createObjectStore(CANDLES_STORE, { keyPath: "key" }).createIndex("openedAt", "openedAt");
+      }
+      if (!db.objectStoreNames.contains(DATASETS_STORE)) {
+        db.createObjectStore(DATASETS_STORE, { keyPath: "symbol" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+  return dbRequest;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once the writes made by `write` are committed. Quota errors only
+ * surface when the transaction aborts, so this rejects on that too.
+ */
+export function writeTransaction(db: IDBDatabase, store: string, write: (store: IDBObjectStore) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Storage write aborted"));
+    write(transaction.objectStore(store));
+  });
+}
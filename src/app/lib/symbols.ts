@@ -0,0 +1,55 @@
+import { loadJSON, saveJSON } from "./storage";
+import type { SymbolInfo } from "./utils";
+
+// ========== Search ==========
+
+/** Quote assets offered as picker filters, in display order. */
+export const QUOTE_FILTERS = ["USDT", "FDUSD", "USDC", "BTC", "ETH", "BNB"];
+
+/** Best guess for a symbol that is not in the loaded list yet (e.g. from a shared link). */
+export function placeholderSymbol(symbol: string): SymbolInfo {
+  const quote = QUOTE_FILTERS.find((q) => symbol.endsWith(q) && symbol.length > q.length);
+  const base = quote ? symbol.slice(0, -quote.length) : symbol;
+  return {
+    symbol,
+    name: base,
+    pair: quote ? `${base}/${quote}` : symbol,
+    baseAsset: base,
+    quoteAsset: quote ?? "",
+    pricePrecision: 2,
+    quantityPrecision: 4,
+  };
+}
+
+/**
+ * Filters by quote asset (or "favorites") and a free-text query over the
+ * symbol, pair and name. Prefix matches on the base asset rank first.
+ */
+export function searchSymbols(
+  symbols: SymbolInfo[],
+  query: string,
+  filter: string | null,
+  favorites: string[],
+): SymbolInfo[] {
+  const q = query.trim().toUpperCase().replace("/", "");
+  const matches = symbols.filter((s) => {
+    if (filter === "favorites" && !favorites.includes(s.symbol)) return false;
+    if (filter && filter !== "favorites" && s.quoteAsset !== filter) return false;
+    return !q || s.symbol.includes(q) || s.name.toUpperCase().includes(q);
+  });
+  if (!q) return matches;
+  const rank = (s: SymbolInfo) => (s.baseAsset === q ? 0 : s.baseAsset.startsWith(q) ? 1 : 2);
+  return matches.sort((a, b) => rank(a) - rank(b));
+}
+
+// ========== Favorites ==========
+
+const FAVORITES_KEY = "favoriteSymbols";
+
+export function loadFavorites(): string[] {
+  return loadJSON<string[]>(FAVORITES_KEY, []);
+}
+
+export function saveFavorites(favorites: string[]): void {
+  saveJSON(FAVORITES_KEY, favorites);
+}
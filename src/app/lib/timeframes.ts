@@ -0,0 +1,169 @@
+import type { KLineData } from "klinecharts";
+import { loadJSON, saveJSON } from "./storage";
+import { TIMEFRAMES, bucketStart, intervalToMs, resampleKlines, type Timeframe } from "./utils";
+
+// ========== Parsing ==========
+
+/** Minutes, hours, days, weeks and calendar months, as in exchange intervals ("1m" vs "1M"). */
+export type IntervalUnit = "m" | "h" | "d" | "w" | "M";
+
+export interface ParsedInterval {
+  count: number;
+  unit: IntervalUnit;
+}
+
+const MAX_COUNT = 999;
+
+const UNIT_LABELS: Record<IntervalUnit, string> = { m: "m", h: "H", d: "D", w: "W", M: "M" };
+
+/**
+ * Reads intervals typed as in the toolbar ("45m", "2H", "3d", "1M"). Units
+ * are case-insensitive except m (minutes) and M (months).
+ */
+export function parseInterval(text: string): ParsedInterval | null {
+  const match = /^\s*(\d+)\s*([mhdwHDWM])\s*$/.exec(text);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  const unit = (match[2] === "m" || match[2] === "M" ? match[2] : match[2].toLowerCase()) as IntervalUnit;
+  if (count < 1 || count > MAX_COUNT) return null;
+  return { count, unit };
+}
+
+/** Canonical interval string, e.g. "2h" or "1M". */
+export function formatInterval({ count, unit }: ParsedInterval): string {
+  return `${count}${unit}`;
+}
+
+/** The built-in timeframe for `interval`, or a custom one labelled like the built-ins. */
+export function timeframeFor(interval: string): Timeframe | null {
+  const parsed = parseInterval(interval);
+  if (!parsed) return null;
+  const canonical = formatInterval(parsed);
+  const builtIn = TIMEFRAMES.find((tf) => tf.interval === canonical);
+  return builtIn ?? { label: `${parsed.count}${UNIT_LABELS[parsed.unit]}`, value: canonical, interval: canonical };
+}
+
+// ========== Resampling ==========
+
+/**
+ * Intervals every provider serves directly. The exchange also has 3d and 1M,
+ * but other providers don't, so those are rebuilt like any custom interval.
+ */
+const NATIVE_INTERVALS = new Set(["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "1w"]);
+
+/** Candidate base intervals, coarsest first. */
+const BASE_INTERVALS = ["1w", "1d", "12h", "8h", "6h", "4h", "2h", "1h", "30m", "15m", "5m", "3m", "1m"];
+
+export function needsResampling(interval: string): boolean {
+  return !NATIVE_INTERVALS.has(interval);
+}
+
+/**
+ * Coarsest native interval whose bars nest exactly inside `interval`'s in
+ * timezone `tz`. The native bars open on UTC boundaries, so under an offset
+ * the base also has to divide it, e.g. 30m bars for days in UTC+5:30.
+ */
+export function baseIntervalFor(interval: string, tz: BarTimezone = 0): string {
+  const parsed = parseInterval(interval);
+  if (!parsed) return "1m";
+  const step = parsed.unit === "M" ? intervalToMs("1d") : intervalToMs(interval);
+  const offsets = timezoneOffsets(tz);
+  return BASE_INTERVALS.find((base) => {
+    const size = intervalToMs(base);
+    return step % size === 0 && offsets.every((offset) => offset % size === 0);
+  }) ?? "1m";
+}
+
+/**
+ * Opening time of the `interval` bar containing `timestamp`, in timezone
+ * `tz`: multiples of the interval since the epoch, weeks from Monday and
+ * months from the 1st, all counted in that zone's wall-clock time. With the
+ * default UTC they line up with the exchange's own bars.
+ */
+export function bucketOf(timestamp: number, interval: string, tz: BarTimezone = 0): number {
+  const parsed = parseInterval(interval);
+  if (!parsed) return timestamp;
+  const toMonth = (year: number, month: number) =>
+    Math.floor((year * 12 + month) / parsed.count) * parsed.count;
+  if (tz === "local") {
+    if (parsed.unit === "M") {
+      const date = new Date(timestamp);
+      const months = toMonth(date.getFullYear(), date.getMonth());
+      return new Date(Math.floor(months / 12), months % 12, 1).getTime();
+    }
+    // The wall-clock start, converted back with the offset in force at that time
+    const wall = bucketStart(timestamp + offsetAt(timestamp, tz), intervalToMs(interval));
+    return wall - offsetAt(wall - offsetAt(timestamp, tz), tz);
+  }
+  const offset = tz * MINUTE;
+  if (parsed.unit !== "M") return bucketStart(timestamp + offset, intervalToMs(interval)) - offset;
+  const date = new Date(timestamp + offset);
+  const months = toMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return Date.UTC(Math.floor(months / 12), months % 12, 1) - offset;
+}
+
+/** Aggregates ascending base bars into `interval` bars opening in `tz`; the last one may still be forming. */
+export function resample(bars: KLineData[], interval: string, tz: BarTimezone = 0): KLineData[] {
+  return resampleKlines(bars, (timestamp) => bucketOf(timestamp, interval, tz));
+}
+
+// ========== Bar Timezone ==========
+
+/**
+ * Where custom timeframe bars open: minutes east of UTC, or "local" for the
+ * browser's zone including its daylight saving changes. Native timeframes
+ * always come as the provider serves them.
+ */
+export type BarTimezone = number | "local";
+
+const MINUTE = 60 * 1000;
+
+// Whole hours from UTC-12 to UTC+14, plus the common half and quarter hours
+export const BAR_TIMEZONES: BarTimezone[] = [
+  0, "local",
+  ...[...Array.from({ length: 27 }, (_, i) => (i - 12) * 60), 210, 270, 330, 345, 570]
+    .filter((m) => m !== 0)
+    .sort((a, b) => a - b),
+];
+
+/** E.g. "UTC", "Local" or "UTC+5:30". */
+export function barTimezoneLabel(tz: BarTimezone): string {
+  if (tz === "local") return "Local";
+  if (tz === 0) return "UTC";
+  const minutes = Math.abs(tz) % 60;
+  return `UTC${tz > 0 ? "+" : "-"}${Math.floor(Math.abs(tz) / 60)}${minutes ? `:${String(minutes).padStart(2, "0")}` : ""}`;
+}
+
+function offsetAt(timestamp: number, tz: BarTimezone): number {
+  return tz === "local" ? -new Date(timestamp).getTimezoneOffset() * MINUTE : tz * MINUTE;
+}
+
+// The local zone's offsets in winter and summer, which base bars have to nest in
+function timezoneOffsets(tz: BarTimezone): number[] {
+  if (tz !== "local") return [tz * MINUTE];
+  const year = new Date().getFullYear();
+  return [offsetAt(new Date(year, 0, 1).getTime(), tz), offsetAt(new Date(year, 6, 1).getTime(), tz)];
+}
+
+const TIMEZONE_KEY = "barTimezone";
+
+export function loadBarTimezone(): BarTimezone {
+  const tz = loadJSON<BarTimezone>(TIMEZONE_KEY, 0);
+  return BAR_TIMEZONES.includes(tz) ? tz : 0;
+}
+
+export function saveBarTimezone(tz: BarTimezone): void {
+  saveJSON(TIMEZONE_KEY, tz);
+}
+
+// ========== Pinned Timeframes ==========
+
+const PINNED_KEY = "pinnedTimeframes";
+
+export function loadPinnedTimeframes(): string[] {
+  return loadJSON<string[]>(PINNED_KEY, []).filter((i) => parseInterval(i) !== null);
+}
+
+export function savePinnedTimeframes(intervals: string[]): void {
+  saveJSON(PINNED_KEY, intervals);
+}
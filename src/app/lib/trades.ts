@@ -0,0 +1,81 @@
+import { loadJSON, saveJSON } from "./storage";
+import type { Trade } from "./providers";
+
+// ========== Tape ==========
+
+/** A tape line: one trade, or consecutive same-price, same-side trades merged. */
+export interface TapeRow {
+  id: number;
+  price: number;
+  qty: number;
+  time: number;
+  side: Trade["side"];
+  count: number;
+}
+
+/** Trades newest first; with `merge`, consecutive prints at the same price and side collapse into one row. */
+export function buildTape(trades: Trade[], merge: boolean): TapeRow[] {
+  const rows: TapeRow[] = [];
+  trades.forEach((t) => {
+    const prev = rows[rows.length - 1];
+    if (merge && prev && prev.price === t.price && prev.side === t.side) {
+      prev.qty += t.qty;
+      prev.count++;
+    } else {
+      rows.push({ ...t, count: 1 });
+    }
+  });
+  return rows;
+}
+
+// ========== Volume Split ==========
+
+/**
+ * Taker quote volume bought and sold per second of trading. Kept apart from
+ * the capped trade list, which on a busy symbol spans only a few seconds.
+ */
+export type VolumeBuckets = Map<number, { buy: number; sell: number }>;
+
+const BUCKET_MS = 1000;
+
+export function addVolume(buckets: VolumeBuckets, trade: Trade): void {
+  const second = Math.floor(trade.time / BUCKET_MS) * BUCKET_MS;
+  const bucket = buckets.get(second) ?? { buy: 0, sell: 0 };
+  bucket[trade.side] += trade.price * trade.qty;
+  buckets.set(second, bucket);
+}
+
+/** Quote volume bought vs sold by takers since `since`, dropping the seconds before it. */
+export function volumeSplit(buckets: VolumeBuckets, since: number): { buy: number; sell: number } {
+  let buy = 0;
+  let sell = 0;
+  buckets.forEach((bucket, second) => {
+    if (second + BUCKET_MS <= since) {
+      buckets.delete(second);
+      return;
+    }
+    buy += bucket.buy;
+    sell += bucket.sell;
+  });
+  return { buy, sell };
+}
+
+// ========== Persistence ==========
+
+export interface TapeSettings {
+  /** Trades with a quote notional at or above this are highlighted. */
+  largeThreshold: number;
+  merge: boolean;
+}
+
+const TAPE_KEY = "tradeTape";
+
+export const DEFAULT_TAPE_SETTINGS: TapeSettings = { largeThreshold: 50000, merge: false };
+
+export function loadTapeSettings(): TapeSettings {
+  return { ...DEFAULT_TAPE_SETTINGS, ...loadJSON<Partial<TapeSettings>>(TAPE_KEY, {}) };
+}
+
+export function saveTapeSettings(settings: TapeSettings): void {
+  saveJSON(TAPE_KEY, settings);
+}
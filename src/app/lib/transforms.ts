@@ -0,0 +1,268 @@
+import type { Chart, KLineData } from "klinecharts";
+import { atr } from "./indicators";
+
+// ========== Types ==========
+
+export type BarTransformType = "time" | "heikinAshi" | "renko" | "range" | "lineBreak";
+
+/**
+ * How a panel's bars are built from its candles. Every type's parameters are
+ * kept, so switching away and back restores them.
+ */
+export interface BarTransform {
+  type: BarTransformType;
+  /** Renko box: a fixed price step, or the ATR of the loaded candles. */
+  boxMode: "fixed" | "atr";
+  /** Price step of a Renko brick in fixed mode; 0 falls back to the ATR. */
+  boxSize: number;
+  /** High-to-low size of a range bar; 0 sizes it from the ATR. */
+  rangeSize: number;
+  atrPeriod: number;
+  /** Lines a line break reversal has to clear, 3 for the classic chart. */
+  lineBreak: number;
+}
+
+export const BAR_TRANSFORMS: { type: BarTransformType; label: string; title: string }[] = [
+  { type: "time", label: "Time", title: "One bar per candle" },
+  { type: "heikinAshi", label: "Heikin-Ashi", title: "Averaged candles that smooth out noise" },
+  { type: "renko", label: "Renko", title: "A brick each time price moves one box" },
+  { type: "range", label: "Range", title: "A bar each time price covers a fixed range" },
+  { type: "lineBreak", label: "Line Break", title: "A line per new close beyond the last lines" },
+];
+
+export const DEFAULT_BAR_TRANSFORM: BarTransform = {
+  type: "time",
+  boxMode: "atr",
+  boxSize: 0,
+  rangeSize: 0,
+  atrPeriod: 14,
+  lineBreak: 3,
+};
+
+/** Renko, range and line break bars form on price moves rather than on the clock. */
+export function isTimeBased(type: BarTransformType): boolean {
+  return type === "time" || type === "heikinAshi";
+}
+
+/** Short label for panel headers, e.g. "Renko 50" or "Renko ATR 14". */
+export function barTransformLabel(t: BarTransform): string {
+  switch (t.type) {
+    case "time": return "";
+    case "heikinAshi": return "Heikin-Ashi";
+    case "renko": return t.boxMode === "atr" || t.boxSize <= 0 ? `Renko ATR ${t.atrPeriod}` : `Renko ${t.boxSize}`;
+    case "range": return t.rangeSize > 0 ? `Range ${t.rangeSize}` : "Range ATR";
+    case "lineBreak": return `${t.lineBreak}-Line Break`;
+  }
+}
+
+// ========== Validation ==========
+
+const positive = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+const count = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 100 ? value : fallback;
+
+/** Fills missing or malformed fields from the defaults. */
+export function sanitizeBarTransform(value: Partial<BarTransform> | null | undefined): BarTransform {
+  const d = DEFAULT_BAR_TRANSFORM;
+  return {
+    type: BAR_TRANSFORMS.some((t) => t.type === value?.type) ? value!.type! : d.type,
+    boxMode: value?.boxMode === "fixed" || value?.boxMode === "atr" ? value.boxMode : d.boxMode,
+    boxSize: positive(value?.boxSize, d.boxSize),
+    rangeSize: positive(value?.rangeSize, d.rangeSize),
+    atrPeriod: count(value?.atrPeriod, d.atrPeriod),
+    lineBreak: count(value?.lineBreak, d.lineBreak),
+  };
+}
+
+/** Compact form for links: only the active type and its parameters, e.g. `renko:fixed:50` or `lineBreak:3`. */
+export function formatBarTransform(t: BarTransform): string {
+  switch (t.type) {
+    case "time": return "";
+    case "heikinAshi": return t.type;
+    case "renko": return [t.type, t.boxMode, t.boxMode === "atr" ? t.atrPeriod : t.boxSize].join(":");
+    case "range": return [t.type, t.rangeSize].join(":");
+    case "lineBreak": return [t.type, t.lineBreak].join(":");
+  }
+}
+
+export function parseBarTransform(text: string | undefined): BarTransform {
+  const [type, a, b] = (text ?? "").split(":");
+  const n = (v: string | undefined) => (v === undefined || v === "" ? undefined : Number(v));
+  switch (type) {
+    case "renko":
+      return sanitizeBarTransform(a === "atr"
+        ? { type, boxMode: a, atrPeriod: n(b) }
+        : { type, boxMode: "fixed", boxSize: n(b) });
+    case "range": return sanitizeBarTransform({ type, rangeSize: n(a) });
+    case "lineBreak": return sanitizeBarTransform({ type, lineBreak: n(a) });
+    default: return sanitizeBarTransform({ type: type as BarTransformType });
+  }
+}
+
+// ========== Transforms ==========
+// Each takes ascending candles, the last possibly still forming, and
+// rebuilds the whole series; recomputing on every update keeps the newest
+// bars right without tracking incremental state.
+
+/** Guards against a box so small that one candle makes thousands of bricks. */
+const MAX_BARS = 20000;
+
+// Bars formed within one candle share its time, so each gets a millisecond more to keep timestamps unique
+const stamp = (timestamp: number, index: number) => timestamp + index;
+
+function heikinAshi(bars: KLineData[]): KLineData[] {
+  const out: KLineData[] = [];
+  bars.forEach((b, i) => {
+    const close = (b.open + b.high + b.low + b.close) / 4;
+    const open = i === 0 ? (b.open + b.close) / 2 : (out[i - 1].open + out[i - 1].close) / 2;
+    out.push({ ...b, open, close, high: Math.max(b.high, open, close), low: Math.min(b.low, open, close) });
+  });
+  return out;
+}
+
+/** Last ATR of the candles, rounded to two significant figures so the box only moves on real changes. */
+function atrSize(bars: KLineData[], period: number): number {
+  const values = atr(bars.map((b) => b.high), bars.map((b) => b.low), bars.map((b) => b.close), period);
+  const last = values.filter((v) => !Number.isNaN(v)).pop();
+  if (!last) return 0;
+  const magnitude = 10 ** (Math.floor(Math.log10(last)) - 1);
+  return Math.round(last / magnitude) * magnitude;
+}
+
+/** Close-based bricks on a grid of box multiples, so paging in older candles keeps the levels. */
+function renko(bars: KLineData[], box: number): KLineData[] {
+  const out: KLineData[] = [];
+  if (bars.length === 0 || box <= 0) return out;
+  let high = Math.round(bars[0].close / box) * box;
+  let low = high;
+  let volume = 0;
+  let turnover = 0;
+  for (const b of bars) {
+    volume += b.volume ?? 0;
+    turnover += b.turnover ?? 0;
+    let made = 0;
+    // A new brick needs one box beyond the last one's close; a reversal needs two
+    while (out.length < MAX_BARS && (b.close >= high + box || b.close <= low - box)) {
+      const up = b.close >= high + box;
+      const open = up ? high : low;
+      const close = up ? high + box : low - box;
+      // The candle's volume goes to the first brick it completes
+      out.push({
+        timestamp: stamp(b.timestamp, made),
+        open, close, high: Math.max(open, close), low: Math.min(open, close),
+        volume: made === 0 ? volume : 0,
+        turnover: made === 0 ? turnover : 0,
+      });
+      made++;
+      high = Math.max(open, close);
+      low = Math.min(open, close);
+    }
+    if (made > 0) {
+      volume = 0;
+      turnover = 0;
+    }
+  }
+  return out;
+}
+
+/** Bars spanning `size` from high to low, following each candle's likely path open → low/high → close. */
+function rangeBars(bars: KLineData[], size: number): KLineData[] {
+  const out: KLineData[] = [];
+  if (bars.length === 0 || size <= 0) return out;
+  let current: KLineData | null = null;
+  for (const b of bars) {
+    let made = 0;
+    const path = b.close >= b.open ? [b.open, b.low, b.high, b.close] : [b.open, b.high, b.low, b.close];
+    for (const price of path) {
+      if (!current) current = { timestamp: stamp(b.timestamp, made++), open: price, high: price, low: price, close: price, volume: 0, turnover: 0 };
+      while (out.length < MAX_BARS && (price > current.low + size || price < current.high - size)) {
+        // Close at the range limit and open the next bar there
+        const edge: number = price > current.low + size ? current.low + size : current.high - size;
+        current.high = Math.max(current.high, edge);
+        current.low = Math.min(current.low, edge);
+        current.close = edge;
+        out.push(current);
+        current = { timestamp: stamp(b.timestamp, made++), open: edge, high: edge, low: edge, close: edge, volume: 0, turnover: 0 };
+      }
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+    }
+    current!.volume = (current!.volume ?? 0) + (b.volume ?? 0);
+    current!.turnover = (current!.turnover ?? 0) + (b.turnover ?? 0);
+  }
+  // The last bar is still forming
+  if (current) out.push(current);
+  return out;
+}
+
+/** Line break: a line per close beyond the last line, or beyond the extreme of the last `lines` lines to reverse. */
+function lineBreak(bars: KLineData[], lines: number): KLineData[] {
+  const out: KLineData[] = [];
+  if (bars.length === 0) return out;
+  let volume = 0;
+  let turnover = 0;
+  const push = (b: KLineData, open: number) => {
+    out.push({
+      timestamp: b.timestamp, open, close: b.close, high: Math.max(open, b.close), low: Math.min(open, b.close),
+      volume, turnover,
+    });
+    volume = 0;
+    turnover = 0;
+  };
+  bars.slice(1).forEach((b) => {
+    volume += b.volume ?? 0;
+    turnover += b.turnover ?? 0;
+    const last = out[out.length - 1];
+    if (!last) {
+      if (b.close !== bars[0].close) push(b, bars[0].close);
+      return;
+    }
+    const up = last.close > last.open;
+    const recent = out.slice(-lines);
+    if (up ? b.close > last.close : b.close < last.close) {
+      push(b, last.close);
+    } else if (up ? b.close < Math.min(...recent.map((l) => l.low)) : b.close > Math.max(...recent.map((l) => l.high))) {
+      // A reversal line starts from the far end of the last line
+      push(b, last.open);
+    }
+  });
+  return out;
+}
+
+/** The bars a chart shows for `candles` under transform `t`. */
+export function transformBars(candles: KLineData[], t: BarTransform): KLineData[] {
+  switch (t.type) {
+    // A copy either way, since the chart keeps and extends the array it is given
+    case "time": return candles.slice();
+    case "heikinAshi": return heikinAshi(candles);
+    case "renko":
+      return renko(candles, t.boxMode === "fixed" && t.boxSize > 0 ? t.boxSize : atrSize(candles, t.atrPeriod));
+    case "range": return rangeBars(candles, t.rangeSize > 0 ? t.rangeSize : atrSize(candles, t.atrPeriod));
+    case "lineBreak": return lineBreak(candles, t.lineBreak);
+  }
+}
+
+// ========== Chart ==========
+
+const sameBar = (a: KLineData, b: KLineData) =>
+  a.timestamp === b.timestamp && a.open === b.open && a.high === b.high && a.low === b.low
+  && a.close === b.close && a.volume === b.volume;
+
+/**
+ * Brings the chart's bars in line with `bars`. When only the newest bar
+ * changed or bars were added they are updated in place, keeping the scroll
+ * position; anything else, such as a retracted brick, reloads the series.
+ */
+export function syncBars(chart: Chart, bars: KLineData[], more: boolean): void {
+  const current = chart.getDataList();
+  let first = 0;
+  while (first < current.length && first < bars.length && sameBar(current[first], bars[first])) first++;
+  if (first === bars.length && first === current.length) return;
+  if (bars.length >= current.length && first >= current.length - 1) {
+    bars.slice(first).forEach((b) => chart.updateData(b));
+  } else {
+    chart.applyNewData(bars, more);
+  }
+}
@@ -6,6 +6,11 @@ export interface SymbolInfo {
   symbol: string;
   name: string;
   pair: string;
+  baseAsset: string;
+  quoteAsset: string;
+  /** Decimals of the exchange tick size (price) and step size (quantity). */
+  pricePrecision: number;
+  quantityPrecision: number;
 }
 
 export interface TickerData {
@@ -24,18 +29,29 @@ export interface OrderBookEntry {
   total: number;
 }
 
+export interface OrderBookData {
+  bids: OrderBookEntry[];
+  asks: OrderBookEntry[];
+}
+
 export const SYMBOLS: SymbolInfo[] = [
-  { symbol: "BTCUSDT", name: "Bitcoin", pair: "BTC/USDT" },
-  { symbol: "ETHUSDT", name: "Ethereum", pair: "ETH/USDT" },
-  { symbol: "SOLUSDT", name: "Solana", pair: "SOL/USDT" },
-  { symbol: "BNBUSDT", name: "BNB", pair: "BNB/USDT" },
-  { symbol: "XRPUSDT", name: "XRP", pair: "XRP/USDT" },
-  { symbol: "ADAUSDT", name: "Cardano", pair: "ADA/USDT" },
-  { symbol: "DOGEUSDT", name: "Dogecoin", pair: "DOGE/USDT" },
-  { symbol: "SUIUSDT", name: "Sui", pair: "SUI/USDT" },
+  { symbol: "BTCUSDT", name: "Bitcoin", pair: "BTC/USDT", baseAsset: "BTC", quoteAsset: "USDT", pricePrecision: 2, quantityPrecision: 5 },
+  { symbol: "ETHUSDT", name: "Ethereum", pair: "ETH/USDT", baseAsset: "ETH", quoteAsset: "USDT", pricePrecision: 2, quantityPrecision: 4 },
+  { symbol: "SOLUSDT", name: "Solana", pair: "SOL/USDT", baseAsset: "SOL", quoteAsset: "USDT", pricePrecision: 2, quantityPrecision: 3 },
+  { symbol: "BNBUSDT", name: "BNB", pair: "BNB/USDT", baseAsset: "BNB", quoteAsset: "USDT", pricePrecision: 2, quantityPrecision: 3 },
+  { symbol: "XRPUSDT", name: "XRP", pair: "XRP/USDT", baseAsset: "XRP", quoteAsset: "USDT", pricePrecision: 4, quantityPrecision: 1 },
+  { symbol: "ADAUSDT", name: "Cardano", pair: "ADA/USDT", baseAsset: "ADA", quoteAsset: "USDT", pricePrecision: 4, quantityPrecision: 1 },
+  { symbol: "DOGEUSDT", name: "Dogecoin", pair: "DOGE/USDT", baseAsset: "DOGE", quoteAsset: "USDT", pricePrecision: 5, quantityPrecision: 0 },
+  { symbol: "SUIUSDT", name: "Sui", pair: "SUI/USDT", baseAsset: "SUI", quoteAsset: "USDT", pricePrecision: 4, quantityPrecision: 1 },
 ];
 
-export const TIMEFRAMES = [
+export interface Timeframe {
+  label: string;
+  value: string;
+  interval: string;
+}
+
+export const TIMEFRAMES: Timeframe[] = [
   { label: "1m", value: "1m", interval: "1m" },
   { label: "5m", value: "5m", interval: "5m" },
   { label: "15m", value: "15m", interval: "15m" },
@@ -45,110 +61,61 @@ export const TIMEFRAMES = [
   { label: "1W", value: "1w", interval: "1w" },
 ];
 
-export const MAIN_INDICATORS = ["MA", "EMA", "BOLL", "SAR", "BBI"];
+export const MAIN_INDICATORS = ["MA", "EMA", "BOLL", "SAR", "BBI", "VP"];
 export const SUB_INDICATORS = ["VOL", "MACD", "KDJ", "RSI", "ATR", "DMI", "OBV"];
 
-// ========== Binance API ==========
-
-const BINANCE_API = "https://api.binance.com/api/v3";
-
-export async function fetchKlineData(
-  symbol: string,
-  interval: string,
-  limit: number = 500,
-): Promise<KLineData[]> {
-  try {
-    const res = await fetch(
-      `${BINANCE_API}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`,
-    );
-    const data = await res.json();
-    return data.map((d: any[]) => ({
-      timestamp: d[0],
-      open: parseFloat(d[1]),
-      high: parseFloat(d[2]),
-      low: parseFloat(d[3]),
-      close: parseFloat(d[4]),
-      volume: parseFloat(d[5]),
-      turnover: parseFloat(d[7]),
-    }));
-  } catch {
-    return generateFallbackData(500);
-  }
+// ========== Intervals ==========
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  // Calendar months vary; this is only used for spacing and annualising
+  M: 30 * 24 * 60 * 60 * 1000,
+};
+
+export function intervalToMs(interval: string): number {
+  const unit = INTERVAL_UNITS[interval.slice(-1)];
+  return (parseInt(interval, 10) || 1) * (unit ?? INTERVAL_UNITS.m);
 }
 
-export async function fetchTicker(symbol: string): Promise<TickerData | null> {
-  try {
-    const res = await fetch(`${BINANCE_API}/ticker/24hr?symbol=${symbol}`);
-    const d = await res.json();
-    return {
-      price: d.lastPrice,
-      priceChange: d.priceChange,
-      priceChangePercent: d.priceChangePercent,
-      high: d.highPrice,
-      low: d.lowPrice,
-      volume: d.volume,
-      quoteVolume: d.quoteVolume,
-    };
-  } catch {
-    return null;
-  }
+// ========== Klines ==========
+
+/** Merges two kline lists by timestamp, sorted ascending; bars in `b` win on conflicts. */
+export function mergeKlines(a: KLineData[], b: KLineData[]): KLineData[] {
+  const byTime = new Map<number, KLineData>();
+  a.forEach((d) => byTime.set(d.timestamp, d));
+  b.forEach((d) => byTime.set(d.timestamp, d));
+  return Array.from(byTime.values()).sort((x, y) => x.timestamp - y.timestamp);
 }
 
-export async function fetchOrderBook(
-  symbol: string,
-  limit: number = 15,
-): Promise<{ bids: OrderBookEntry[]; asks: OrderBookEntry[] }> {
-  try {
-    const res = await fetch(
-      `${BINANCE_API}/depth?symbol=${symbol}&limit=${limit}`,
-    );
-    const data = await res.json();
-    const mapEntries = (entries: string[][]) => {
-      let runningTotal = 0;
-      return entries.map((e) => {
-        runningTotal += parseFloat(e[1]);
-        return { price: e[0], qty: e[1], total: runningTotal };
-      });
-    };
-    return {
-      bids: mapEntries(data.bids),
-      asks: mapEntries(data.asks.reverse()),
-    };
-  } catch {
-    return { bids: [], asks: [] };
-  }
+// The epoch fell on a Thursday; weeks open on Monday like the exchange's
+const WEEK_ORIGIN = 4 * INTERVAL_UNITS.d;
+
+/** Opening time of the `step`-long bar containing `timestamp`. */
+export function bucketStart(timestamp: number, step: number): number {
+  const origin = step % INTERVAL_UNITS.w === 0 ? WEEK_ORIGIN : 0;
+  return Math.floor((timestamp - origin) / step) * step + origin;
 }
 
-// ========== WebSocket ==========
-
-export function createKlineWebSocket(
-  symbol: string,
-  interval: string,
-  onMessage: (data: KLineData) => void,
-): WebSocket | null {
-  try {
-    const ws = new WebSocket(
-      `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@kline_${interval}`,
-    );
-    ws.onmessage = (event) => {
-      const msg = JSON.parse(event.data);
-      const k = msg.k;
-      if (k) {
-        onMessage({
-          timestamp: k.t,
-          open: parseFloat(k.o),
-          high: parseFloat(k.h),
-          low: parseFloat(k.l),
-          close: parseFloat(k.c),
-          volume: parseFloat(k.v),
-          turnover: parseFloat(k.q),
-        });
-      }
-    };
-    return ws;
-  } catch {
-    return null;
-  }
+/** Aggregates ascending bars by the bar opening time `bucketOf` gives each; the last bar may still be forming. */
+export function resampleKlines(data: KLineData[], bucketOf: (timestamp: number) => number): KLineData[] {
+  const out: KLineData[] = [];
+  data.forEach((d) => {
+    const timestamp = bucketOf(d.timestamp);
+    const last = out[out.length - 1];
+    if (last && last.timestamp === timestamp) {
+      last.high = Math.max(last.high, d.high);
+      last.low = Math.min(last.low, d.low);
+      last.close = d.close;
+      last.volume = (last.volume ?? 0) + (d.volume ?? 0);
+      last.turnover = (last.turnover ?? 0) + (d.turnover ?? 0);
+    } else {
+      out.push({ ...d, timestamp });
+    }
+  });
+  return out;
 }
 
 // ========== Formatting ==========
@@ -160,32 +127,23 @@ export function formatNumber(num: number, decimals: number = 2): string {
   return num.toFixed(decimals);
 }
 
-export function formatPrice(price: number | string): string {
+/** Decimal places implied by an exchange increment such as "0.01000000" (2) or "1.00000000" (0). */
+export function decimalsOf(increment: string): number {
+  const [, fraction = ""] = increment.split(".");
+  const trimmed = fraction.replace(/0+$/, "");
+  return trimmed.length;
+}
+
+/** Formats with the symbol's tick precision when known, otherwise guesses from magnitude. */
+export function formatPrice(price: number | string, precision?: number): string {
   const p = typeof price === "string" ? parseFloat(price) : price;
+  if (precision !== undefined) return p.toFixed(precision);
   if (p >= 1000) return p.toFixed(2);
   if (p >= 1) return p.toFixed(4);
   return p.toFixed(6);
 }
 
-// ========== Fallback Data ==========
-
-function generateFallbackData(size: number): KLineData[] {
-  const data: KLineData[] = [];
-  let timestamp = Date.now() - size * 60 * 1000;
-  let price = 50000;
-  for (let i = 0; i < size; i++) {
-    price += (Math.random() - 0.495) * price * 0.01;
-    const high = price * (1 + Math.random() * 0.01);
-    const low = price * (1 - Math.random() * 0.01);
-    const open = low + Math.random() * (high - low);
-    const close = low + Math.random() * (high - low);
-    const volume = Math.random() * 100 + 10;
-    data.push({
-      timestamp,
-      open, high, low, close, volume,
-      turnover: ((open + close) / 2) * volume,
-    });
-    timestamp += 60 * 1000;
-  }
-  return data;
+export function formatQuantity(qty: number | string, precision: number): string {
+  const q = typeof qty === "string" ? parseFloat(qty) : qty;
+  return q.toFixed(precision);
 }
@@ -0,0 +1,242 @@
+import {
+  registerIndicator, IndicatorSeries,
+  type IndicatorDrawParams, type Indicator, type KLineData,
+} from "klinecharts";
+
+// ========== Types ==========
+
+/** One price row of a profile; volume of up candles counts as buying, down candles as selling. */
+export interface ProfileRow {
+  low: number;
+  high: number;
+  buy: number;
+  sell: number;
+}
+
+export interface VolumeProfile {
+  rows: ProfileRow[];
+  total: number;
+  /** Index of the point of control, the row with the most volume. */
+  poc: number;
+  /** Value area bounds, the prices holding the configured share of volume around the POC. */
+  vah: number;
+  val: number;
+}
+
+export const VOLUME_PROFILE = "VP";
+
+/** `calcParams` in order; choices are stored 1-based, as settings only take positive numbers. */
+export const VP_PARAMS = ["Range", "Rows", "Value Area %", "Placement", "Width %"];
+export const VP_DEFAULTS = [1, 24, 70, 1, 30];
+export const VP_RANGES = ["Visible range", "Session (UTC day)"];
+export const VP_PLACEMENTS = ["Right", "Left"];
+
+interface ProfileOptions {
+  session: boolean;
+  rows: number;
+  valueArea: number;
+  left: boolean;
+  width: number;
+}
+
+function optionsOf(indicator: Indicator): ProfileOptions {
+  const [range, rows, valueArea, placement, width] = VP_DEFAULTS.map((d, i) => {
+    const v = Number(indicator.calcParams[i]);
+    return Number.isFinite(v) && v > 0 ? v : d;
+  });
+  return {
+    session: range === 2,
+    rows: Math.min(Math.round(rows), 200),
+    valueArea: Math.min(valueArea, 100) / 100,
+    left: placement === 2,
+    width: Math.min(width, 100) / 100,
+  };
+}
+
+// ========== Profile ==========
+
+/**
+ * Volume by price over `bars`. Each candle's volume is spread evenly over
+ * its high-low range, so a row gets the share of the candle that overlaps it.
+ */
+export function buildProfile(bars: KLineData[], rowCount: number, valueArea: number): VolumeProfile | null {
+  if (bars.length === 0 || rowCount < 1) return null;
+  const low = Math.min(...bars.map((b) => b.low));
+  const high = Math.max(...bars.map((b) => b.high));
+  const size = (high - low) / rowCount || 1;
+  const rows: ProfileRow[] = Array.from({ length: rowCount }, (_, i) => ({
+    low: low + i * size, high: low + (i + 1) * size, buy: 0, sell: 0,
+  }));
+  let total = 0;
+  bars.forEach((b) => {
+    const volume = b.volume ?? 0;
+    if (volume <= 0) return;
+    total += volume;
+    const side = b.close >= b.open ? "buy" : "sell";
+    const first = Math.min(Math.floor((b.low - low) / size), rowCount - 1);
+    const last = Math.min(Math.floor((b.high - low) / size), rowCount - 1);
+    const span = b.high - b.low;
+    for (let i = first; i <= last; i++) {
+      // A candle with no range puts everything in its one row
+      const overlap = span > 0 ? (Math.min(b.high, rows[i].high) - Math.max(b.low, rows[i].low)) / span : 1;
+      rows[i][side] += volume * overlap;
+    }
+  });
+  const volumeOf = (i: number) => rows[i].buy + rows[i].sell;
+  let poc = 0;
+  rows.forEach((_, i) => { if (volumeOf(i) > volumeOf(poc)) poc = i; });
+
+  // Grow from the POC towards whichever neighbouring row has more volume
+  let top = poc;
+  let bottom = poc;
+  let inArea = volumeOf(poc);
+  while (inArea < total * valueArea && (top < rowCount - 1 || bottom > 0)) {
+    const above = top < rowCount - 1 ? volumeOf(top + 1) : -1;
+    const below = bottom > 0 ? volumeOf(bottom - 1) : -1;
+    if (above >= below) inArea += volumeOf(++top);
+    else inArea += volumeOf(--bottom);
+  }
+  return { rows, total, poc, vah: rows[top].high, val: rows[bottom].low };
+}
+
+const UTC_DAY = 24 * 60 * 60 * 1000;
+
+/** Index ranges `[from, to)` of the UTC days touching `from..to`, each extended to its whole day. */
+function sessionsAround(bars: KLineData[], from: number, to: number): Array<[number, number]> {
+  const out: Array<[number, number]> = [];
+  const dayOf = (i: number) => Math.floor(bars[i].timestamp / UTC_DAY);
+  let start = Math.max(0, from);
+  while (start > 0 && dayOf(start - 1) === dayOf(start)) start--;
+  while (start < Math.min(to, bars.length)) {
+    let end = start + 1;
+    while (end < bars.length && dayOf(end) === dayOf(start)) end++;
+    out.push([start, end]);
+    start = end;
+  }
+  return out;
+}
+
+// ========== Indicator ==========
+
+const BUY_COLOR = "14, 203, 129";
+const SELL_COLOR = "246, 70, 93";
+const POC_COLOR = "#f0b90b";
+const VALUE_AREA_COLOR = "#848e9c";
+
+/** Draws one profile's rows out from `base` up to `maxWidth` wide, with POC and value area lines from `lineFrom` to `lineTo`. */
+function drawProfile(
+  { ctx, yAxis }: IndicatorDrawParams,
+  profile: VolumeProfile,
+  base: number,
+  maxWidth: number,
+  lineFrom: number,
+  lineTo: number,
+  left: boolean,
+) {
+  const maxVolume = Math.max(...profile.rows.map((r) => r.buy + r.sell));
+  if (maxVolume <= 0) return;
+  const dir = left ? 1 : -1;
+  profile.rows.forEach((row, i) => {
+    const y1 = yAxis.convertToPixel(row.high);
+    const y2 = yAxis.convertToPixel(row.low);
+    const height = Math.max(Math.abs(y2 - y1) - 1, 1);
+    const top = Math.min(y1, y2);
+    const inArea = row.low >= profile.val - 1e-9 && row.high <= profile.vah + 1e-9;
+    const alpha = i === profile.poc ? 0.6 : inArea ? 0.4 : 0.18;
+    const buyWidth = (row.buy / maxVolume) * maxWidth;
+    const sellWidth = (row.sell / maxVolume) * maxWidth;
+    // Buying sits next to the base, selling continues outwards
+    ctx.fillStyle = `rgba(${BUY_COLOR}, ${alpha})`;
+    ctx.fillRect(left ? base : base - buyWidth, top, buyWidth, height);
+    ctx.fillStyle = `rgba(${SELL_COLOR}, ${alpha})`;
+    ctx.fillRect(base + dir * buyWidth - (left ? 0 : sellWidth), top, sellWidth, height);
+  });
+
+  const line = (price: number, color: string, dashed: boolean) => {
+    const y = Math.round(yAxis.convertToPixel(price)) + 0.5;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.setLineDash(dashed ? [4, 3] : []);
+    ctx.beginPath();
+    ctx.moveTo(lineFrom, y);
+    ctx.lineTo(lineTo, y);
+    ctx.stroke();
+  };
+  const poc = profile.rows[profile.poc];
+  line((poc.low + poc.high) / 2, POC_COLOR, false);
+  line(profile.vah, VALUE_AREA_COLOR, true);
+  line(profile.val, VALUE_AREA_COLOR, true);
+  ctx.setLineDash([]);
+}
+
+/** The profile the tooltip describes: the visible range's, or the session under the crosshair. */
+function profileAt(
+  bars: KLineData[],
+  indicator: Indicator,
+  from: number,
+  to: number,
+  dataIndex: number | undefined,
+): VolumeProfile | null {
+  const options = optionsOf(indicator);
+  if (!options.session) return buildProfile(bars.slice(Math.max(0, from), to), options.rows, options.valueArea);
+  const index = Math.min(dataIndex ?? to - 1, bars.length - 1);
+  const session = sessionsAround(bars, index, index + 1)[0];
+  return session ? buildProfile(bars.slice(session[0], session[1]), options.rows, options.valueArea) : null;
+}
+
+/**
+ * Registers the volume profile overlay. It is computed while drawing, from
+ * the bars on screen, so it follows scrolling, zooming and live updates.
+ */
+export function registerVolumeProfile(): void {
+  registerIndicator({
+    name: VOLUME_PROFILE,
+    shortName: "VP",
+    series: IndicatorSeries.Price,
+    calcParams: VP_DEFAULTS,
+    figures: [],
+    calc: (dataList) => dataList.map(() => ({})),
+    createTooltipDataSource: ({ kLineDataList, indicator, visibleRange, crosshair }) => {
+      const profile = profileAt(kLineDataList, indicator, visibleRange.from, visibleRange.to, crosshair.dataIndex);
+      const { session, valueArea } = optionsOf(indicator);
+      const price = (v: number) => v.toFixed(indicator.precision);
+      const poc = profile?.rows[profile.poc];
+      const buy = profile ? profile.rows.reduce((sum, r) => sum + r.buy, 0) : 0;
+      const value = (title: string, text: string, color = "#848e9c") => ({
+        title: { text: title, color: "#848e9c" },
+        value: { text, color },
+      });
+      return {
+        name: "VP",
+        calcParamsText: ` ${session ? "Session" : "Visible"} ${Math.round(valueArea * 100)}%`,
+        icons: [],
+        values: profile && poc
+          ? [
+              value("POC: ", price((poc.low + poc.high) / 2), POC_COLOR),
+              value("VAH: ", price(profile.vah)),
+              value("VAL: ", price(profile.val)),
+              value("Buy: ", `${profile.total ? ((buy / profile.total) * 100).toFixed(1) : "0"}%`, `rgb(${BUY_COLOR})`),
+            ]
+          : [],
+      };
+    },
+    draw: (params) => {
+      const { kLineDataList, indicator, visibleRange, bounding, xAxis } = params;
+      const { session, rows, valueArea, left, width } = optionsOf(indicator);
+      if (!session) {
+        const profile = buildProfile(kLineDataList.slice(Math.max(0, visibleRange.from), visibleRange.to), rows, valueArea);
+        const base = left ? 0 : bounding.width;
+        if (profile) drawProfile(params, profile, base, bounding.width * width, 0, bounding.width, left);
+        return true;
+      }
+      sessionsAround(kLineDataList, visibleRange.from, visibleRange.to).forEach(([from, to]) => {
+        const profile = buildProfile(kLineDataList.slice(from, to), rows, valueArea);
+        if (!profile) return;
+        const x0 = xAxis.convertToPixel(from);
+        const x1 = xAxis.convertToPixel(to - 1);
+        drawProfile(params, profile, left ? x0 : x1, Math.max(x1 - x0, 1) * width, x0, x1, left);
+      });
+      return true;
+    },
+  });
+}
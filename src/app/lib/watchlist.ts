@@ -0,0 +1,64 @@
+import { loadJSON, saveJSON } from "./storage";
+import { SYMBOLS } from "./utils";
+import type { MiniTicker } from "./providers";
+
+// ========== Types ==========
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+}
+
+export interface WatchlistState {
+  lists: Watchlist[];
+  activeId: string;
+}
+
+export type WatchlistSort = "manual" | "change" | "volume";
+
+export const DEFAULT_WATCHLISTS: WatchlistState = {
+  lists: [{ id: "default", name: "Watchlist", symbols: SYMBOLS.slice(0, 6).map((s) => s.symbol) }],
+  activeId: "default",
+};
+
+// ========== Helpers ==========
+
+export function changePercent(ticker: MiniTicker): number {
+  return ticker.openPrice ? ((ticker.lastPrice - ticker.openPrice) / ticker.openPrice) * 100 : 0;
+}
+
+/** Orders symbols for display; symbols without a ticker yet sink to the bottom when sorting by data. */
+export function sortWatchlist(
+  symbols: string[],
+  tickers: Record<string, MiniTicker>,
+  sort: WatchlistSort,
+): string[] {
+  if (sort === "manual") return symbols;
+  const value = (symbol: string) => {
+    const t = tickers[symbol];
+    if (!t) return -Infinity;
+    return sort === "change" ? changePercent(t) : t.quoteVolume;
+  };
+  return [...symbols].sort((a, b) => value(b) - value(a));
+}
+
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// ========== Persistence ==========
+
+const WATCHLISTS_KEY = "watchlists";
+
+export function loadWatchlists(): WatchlistState {
+  const state = loadJSON<WatchlistState>(WATCHLISTS_KEY, DEFAULT_WATCHLISTS);
+  return state.lists.length > 0 ? state : DEFAULT_WATCHLISTS;
+}
+
+export function saveWatchlists(state: WatchlistState): void {
+  saveJSON(WATCHLISTS_KEY, state);
+}
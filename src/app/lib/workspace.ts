@@ -0,0 +1,164 @@
+import { CandleType } from "klinecharts";
+import { loadJSON, saveJSON } from "./storage";
+import { LINK_GROUPS, isGridLayout, type GridLayout } from "./panels";
+import { formatBarTransform, parseBarTransform, sanitizeBarTransform, type BarTransform } from "./transforms";
+
+// ========== Types ==========
+
+/** One chart panel's part of the workspace. */
+export interface PanelWorkspace {
+  symbol: string;
+  interval: string;
+  chartType: CandleType;
+  barTransform: BarTransform;
+  mainIndicators: string[];
+  subIndicators: string[];
+  linkGroup: string | null;
+  compareSymbols: string[];
+  percentAxis: boolean;
+}
+
+/** Everything needed to reproduce the dashboard's view. */
+export interface Workspace {
+  providerId: string;
+  layout: GridLayout;
+  activePanel: number;
+  panels: PanelWorkspace[];
+}
+
+/**
+ * A workspace as read back from a link or storage. Saves from before the
+ * chart grid hold a single panel's fields at the top level.
+ */
+export type StoredWorkspace = Partial<Omit<Workspace, "panels">> & Partial<PanelWorkspace> & {
+  panels?: Partial<PanelWorkspace>[];
+};
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  workspace: Workspace;
+}
+
+// ========== Validation ==========
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+function sanitizePanel(value: Partial<PanelWorkspace> | undefined, fallback: PanelWorkspace): PanelWorkspace {
+  const chartTypes = Object.values(CandleType) as string[];
+  return {
+    symbol: typeof value?.symbol === "string" && value.symbol ? value.symbol.toUpperCase() : fallback.symbol,
+    interval: typeof value?.interval === "string" && value.interval ? value.interval : fallback.interval,
+    chartType: chartTypes.includes(value?.chartType as string) ? value!.chartType! : fallback.chartType,
+    barTransform: sanitizeBarTransform(value?.barTransform),
+    mainIndicators: isStringArray(value?.mainIndicators) ? value.mainIndicators : fallback.mainIndicators,
+    subIndicators: isStringArray(value?.subIndicators) ? value.subIndicators : fallback.subIndicators,
+    linkGroup: typeof value?.linkGroup === "string" && value.linkGroup in LINK_GROUPS ? value.linkGroup : null,
+    compareSymbols: isStringArray(value?.compareSymbols) ? value.compareSymbols.map((s) => s.toUpperCase()) : [],
+    percentAxis: typeof value?.percentAxis === "boolean" ? value.percentAxis : false,
+  };
+}
+
+/** Fills missing or malformed fields from `fallback`, so old saves and hand-edited links still load. */
+export function sanitizeWorkspace(value: StoredWorkspace | null | undefined, fallback: Workspace): Workspace {
+  const rawPanels = Array.isArray(value?.panels) && value.panels.length > 0
+    ? value.panels
+    : [value ?? undefined];
+  const layout = isGridLayout(Number(value?.layout)) ? (Number(value!.layout) as GridLayout) : rawPanels.length > 1 ? fallback.layout : 1;
+  // Panels missing from the save copy the one before them
+  const panels: PanelWorkspace[] = [];
+  for (let i = 0; i < Math.max(layout, rawPanels.length); i++) {
+    panels.push(sanitizePanel(rawPanels[i], panels[i - 1] ?? fallback.panels[0]));
+  }
+  const activePanel = Number(value?.activePanel);
+  return {
+    providerId: typeof value?.providerId === "string" && value.providerId ? value.providerId : fallback.providerId,
+    layout,
+    activePanel: Number.isInteger(activePanel) && activePanel >= 0 && activePanel < layout ? activePanel : 0,
+    panels,
+  };
+}
+
+// ========== URL ==========
+
+const list = (value: string | undefined | null) =>
+  value ? value.split(",").filter(Boolean) : value === "" ? [] : undefined;
+
+/**
+ * Query string for a workspace, e.g.
+ * `provider=binance&layout=2&active=0&p0=BTCUSDT|1h|candle_solid|MA|VOL|A|ETHUSDT,SOLUSDT|%|renko:atr:14&p1=…`.
+ */
+export function encodeWorkspace(workspace: Workspace): string {
+  const params = new URLSearchParams({
+    provider: workspace.providerId,
+    layout: String(workspace.layout),
+    active: String(workspace.activePanel),
+  });
+  workspace.panels.forEach((p, i) => {
+    params.set(`p${i}`, [
+      p.symbol, p.interval, p.chartType, p.mainIndicators.join(","), p.subIndicators.join(","), p.linkGroup ?? "",
+      p.compareSymbols.join(","), p.percentAxis ? "%" : "", formatBarTransform(p.barTransform),
+    ].join("|"));
+  });
+  return params.toString();
+}
+
+/** Parses a query string; returns null when it carries no workspace so stored state is used instead. */
+export function decodeWorkspace(search: string): StoredWorkspace | null {
+  const params = new URLSearchParams(search);
+  // Links from before the chart grid describe a single chart
+  if (params.has("symbol")) {
+    return {
+      providerId: params.get("provider") ?? undefined,
+      symbol: params.get("symbol") ?? undefined,
+      interval: params.get("interval") ?? undefined,
+      chartType: (params.get("type") ?? undefined) as CandleType | undefined,
+      mainIndicators: list(params.get("main")),
+      subIndicators: list(params.get("sub")),
+    };
+  }
+  if (!params.has("p0")) return null;
+  const panels: Partial<PanelWorkspace>[] = [];
+  for (let i = 0; params.has(`p${i}`); i++) {
+    const [symbol, interval, chartType, main, sub, linkGroup, compare, axis, bars] = params.get(`p${i}`)!.split("|");
+    panels.push({
+      symbol,
+      interval,
+      chartType: chartType as CandleType,
+      mainIndicators: list(main),
+      subIndicators: list(sub),
+      linkGroup: linkGroup || null,
+      compareSymbols: list(compare),
+      percentAxis: axis === "%",
+      barTransform: parseBarTransform(bars),
+    });
+  }
+  return {
+    providerId: params.get("provider") ?? undefined,
+    layout: Number(params.get("layout")) as GridLayout,
+    activePanel: Number(params.get("active")),
+    panels,
+  };
+}
+
+// ========== Persistence ==========
+
+const WORKSPACE_KEY = "workspace";
+const LAYOUTS_KEY = "layouts";
+
+export function loadWorkspace(): StoredWorkspace | null {
+  return loadJSON<StoredWorkspace | null>(WORKSPACE_KEY, null);
+}
+
+export function saveWorkspace(workspace: Workspace): void {
+  saveJSON(WORKSPACE_KEY, workspace);
+}
+
+export function loadLayouts(): SavedLayout[] {
+  return loadJSON<SavedLayout[]>(LAYOUTS_KEY, []);
+}
+
+export function saveLayouts(layouts: SavedLayout[]): void {
+  saveJSON(LAYOUTS_KEY, layouts);
+}
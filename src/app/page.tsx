@@ -1,156 +1,317 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
-import { init, dispose, type Chart, CandleType, LineType, TooltipShowRule } from "klinecharts";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
+import { type Chart, CandleType } from "klinecharts";
 import {
-  SYMBOLS, TIMEFRAMES, MAIN_INDICATORS, SUB_INDICATORS,
-  fetchKlineData, fetchTicker, fetchOrderBook, createKlineWebSocket,
+  SYMBOLS, MAIN_INDICATORS, SUB_INDICATORS,
   formatNumber, formatPrice,
-  type SymbolInfo, type TickerData, type OrderBookEntry,
+  type SymbolInfo, type TickerData,
 } from "./lib/utils";
-
-// ========== Chart Styles ==========
-const CHART_STYLES = {
-  grid: {
-    show: true,
-    horizontal: { show: true, size: 1, color: "#1a1d23", style: LineType.Dashed },
-    vertical: { show: true, size: 1, color: "#1a1d23", style: LineType.Dashed },
-  },
-  candle: {
-    type: CandleType.CandleSolid,
-    bar: {
-      upColor: "#0ecb81",
-      downColor: "#f6465d",
-      upBorderColor: "#0ecb81",
-      downBorderColor: "#f6465d",
-      upWickColor: "#0ecb81",
-      downWickColor: "#f6465d",
-    },
-    priceMark: {
-      show: true,
-      last: { show: true, upColor: "#0ecb81", downColor: "#f6465d", line: { show: true, style: LineType.Dashed } },
-    },
-    tooltip: {
-      showRule: TooltipShowRule.FollowCross,
-      labels: ["T: ", "O: ", "H: ", "L: ", "C: ", "V: "],
-    },
-  },
-  indicator: {
-    lastValueMark: { show: true },
-  },
-  xAxis: {
-    axisLine: { color: "#2a2e37" },
-    tickLine: { color: "#2a2e37" },
-    tickText: { color: "#848e9c" },
-  },
-  yAxis: {
-    axisLine: { color: "#2a2e37" },
-    tickLine: { color: "#2a2e37" },
-    tickText: { color: "#848e9c" },
-  },
-  crosshair: {
-    show: true,
-    horizontal: { show: true, line: { color: "#848e9c44", style: LineType.Dashed } },
-    vertical: { show: true, line: { color: "#848e9c44", style: LineType.Dashed } },
-  },
-  separator: { color: "#2a2e37" },
+import {
+  PROVIDERS, DEFAULT_PROVIDER_ID, FILE_PROVIDER_ID, DATA_ERROR_TITLES, describeDataError, getProvider, toDataError,
+  type ConnectionStatus, type DataError,
+} from "./lib/providers";
+import { INDICATOR_META, toIndicatorCreate, type IndicatorSettings } from "./lib/indicatorSettings";
+import { customIndicatorName, type CustomIndicator } from "./lib/customIndicators";
+import type { Workspace } from "./lib/workspace";
+import { placeholderSymbol } from "./lib/symbols";
+import {
+  DEFAULT_PANEL, GRID_CLASSES, GRID_LAYOUTS,
+  type ChartPanelState, type GridLayout,
+} from "./lib/panels";
+import { createCrosshairSync } from "./lib/chartSync";
+import { timeframeFor } from "./lib/timeframes";
+import type { HistoryExtender } from "./lib/backtest";
+import {
+  addDataset, datasetSymbol, getDatasets, loadDatasets, removeDataset, type ImportedDataset,
+} from "./lib/importData";
+import { useAlerts } from "./hooks/useAlerts";
+import { useToasts } from "./hooks/useToasts";
+import { useIndicatorSettings } from "./hooks/useIndicatorSettings";
+import { useCustomIndicators } from "./hooks/useCustomIndicators";
+import { useWorkspace } from "./hooks/useWorkspace";
+import { usePaperTrading } from "./hooks/usePaperTrading";
+import { usePinnedTimeframes } from "./hooks/usePinnedTimeframes";
+import { useBarTimezone } from "./hooks/useBarTimezone";
+import OrderBook from "./components/OrderBook";
+import ChartPanel from "./components/ChartPanel";
+import BacktestPanel from "./components/BacktestPanel";
+import PaperTradingPanel from "./components/PaperTradingPanel";
+import ExportDialog from "./components/ExportDialog";
+import ImportDialog from "./components/ImportDialog";
+import CompareMenu from "./components/CompareMenu";
+import BarTransformMenu from "./components/BarTransformMenu";
+import TimeframeSelector from "./components/TimeframeSelector";
+import AlertsPanel from "./components/AlertsPanel";
+import IndicatorSettingsDialog from "./components/IndicatorSettingsDialog";
+import CustomIndicatorDialog from "./components/CustomIndicatorDialog";
+import LayoutMenu from "./components/LayoutMenu";
+import SymbolPicker from "./components/SymbolPicker";
+import Watchlist from "./components/Watchlist";
+import RecentTrades from "./components/RecentTrades";
+import ToastStack from "./components/ToastStack";
+
+const CONNECTION_BADGES: Record<ConnectionStatus, { label: string; color: string }> = {
+  connecting: { label: "Connecting", color: "bg-gray-500" },
+  live: { label: "Live", color: "bg-[#0ecb81]" },
+  reconnecting: { label: "Reconnecting", color: "bg-yellow-400" },
+  stale: { label: "Stale", color: "bg-[#f6465d]" },
+  offline: { label: "Offline", color: "bg-gray-500" },
 };
 
+const toggle = (list: string[], item: string) =>
+  list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
 export default function Dashboard() {
-  const chartRef = useRef<Chart | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const chartsRef = useRef(new Map<number, Chart>());
+  const historyExtendersRef = useRef(new Map<number, HistoryExtender>());
   const tickerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const orderBookIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  const [symbol, setSymbol] = useState<SymbolInfo>(SYMBOLS[0]);
-  const [timeframe, setTimeframe] = useState(TIMEFRAMES[3]); // 1H default
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID);
+  const [symbols, setSymbols] = useState<SymbolInfo[]>(SYMBOLS);
+  // Panels beyond the current layout are kept so shrinking and regrowing the grid restores them
+  const [panels, setPanels] = useState<ChartPanelState[]>([DEFAULT_PANEL]);
+  const [gridLayout, setGridLayout] = useState<GridLayout>(1);
+  const [activeIndex, setActiveIndex] = useState(0);
   const [ticker, setTicker] = useState<TickerData | null>(null);
-  const [orderBook, setOrderBook] = useState<{ bids: OrderBookEntry[]; asks: OrderBookEntry[] }>({ bids: [], asks: [] });
-  const [mainIndicators, setMainIndicators] = useState<string[]>(["MA"]);
-  const [subIndicators, setSubIndicators] = useState<string[]>(["VOL"]);
-  const [chartType, setChartType] = useState<CandleType>(CandleType.CandleSolid);
-  const [showSymbolList, setShowSymbolList] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Initialize chart
-  useEffect(() => {
-    const chart = init("main-chart", { styles: CHART_STYLES });
-    chartRef.current = chart;
-    return () => { dispose("main-chart"); };
-  }, []);
-
-  // Load data when symbol/timeframe changes
-  const loadData = useCallback(async () => {
-    const chart = chartRef.current;
-    if (!chart) return;
-    setIsLoading(true);
-
-    // Disconnect old WebSocket
-    wsRef.current?.close();
-
-    // Fetch historical data
-    const data = await fetchKlineData(symbol.symbol, timeframe.interval);
-    chart.applyNewData(data);
-
-    // Apply chart type
-    chart.setStyles({ candle: { type: chartType } });
-
-    // Apply indicators
-    chart.removeIndicator("candle_pane");
-    mainIndicators.forEach((ind) => chart.createIndicator(ind, false, { id: "candle_pane" }));
+  const [tickerError, setTickerError] = useState<DataError | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("connecting");
+  const [toolbarHost, setToolbarHost] = useState<HTMLDivElement | null>(null);
+  const [controlsHost, setControlsHost] = useState<HTMLDivElement | null>(null);
+  const [backtestOpen, setBacktestOpen] = useState(false);
+  const [paperOpen, setPaperOpen] = useState(false);
+  const [exportChart, setExportChart] = useState<Chart | null>(null);
+  // The file dropped on the chart, or null when the dialog was opened from the toolbar
+  const [importing, setImporting] = useState<{ file: File | null } | null>(null);
+  const [symbolsRevision, setSymbolsRevision] = useState(0);
+
+  // The header, toolbar and side panels follow the active panel
+  const {
+    symbol, timeframe, chartType, barTransform, mainIndicators, subIndicators, compareSymbols, percentAxis,
+  } = panels[activeIndex] ?? panels[0];
+
+  const provider = useMemo(() => getProvider(providerId), [providerId]);
+  const crosshairSync = useMemo(() => createCrosshairSync(), []);
+  const { toasts, pushToast, dismissToast } = useToasts();
+  const {
+    settings: indicatorSettings, settingsRef: indicatorSettingsRef, loaded: indicatorSettingsLoaded,
+    updateSettings, resetSettings,
+  } = useIndicatorSettings();
+  const [settingsFor, setSettingsFor] = useState<string | null>(null);
+  const { customIndicators, saveCustomIndicator, removeCustomIndicator } = useCustomIndicators();
+  const { pinned: pinnedTimeframes, togglePin: togglePinnedTimeframe } = usePinnedTimeframes();
+  const { timezone: barTimezone, changeTimezone: changeBarTimezone } = useBarTimezone();
+  const [editingCustom, setEditingCustom] = useState<CustomIndicator | "new" | null>(null);
+
+  // The view that links, the stored workspace and saved layouts reproduce
+  const workspace = useMemo<Workspace>(() => ({
+    providerId,
+    layout: gridLayout,
+    activePanel: activeIndex,
+    panels: panels.slice(0, gridLayout).map((p) => ({
+      symbol: p.symbol.symbol,
+      interval: p.timeframe.interval,
+      chartType: p.chartType,
+      barTransform: p.barTransform,
+      mainIndicators: p.mainIndicators,
+      subIndicators: p.subIndicators,
+      linkGroup: p.linkGroup,
+      compareSymbols: p.compareSymbols,
+      percentAxis: p.percentAxis,
+    })),
+  }), [providerId, gridLayout, activeIndex, panels]);
+  const applyWorkspace = (ws: Workspace) => {
+    setProviderId(getProvider(ws.providerId).id);
+    setPanels(ws.panels.map((p) => ({
+      symbol: symbols.find((s) => s.symbol === p.symbol) ?? placeholderSymbol(p.symbol),
+      timeframe: timeframeFor(p.interval) ?? DEFAULT_PANEL.timeframe,
+      chartType: p.chartType,
+      barTransform: p.barTransform,
+      mainIndicators: p.mainIndicators,
+      subIndicators: p.subIndicators,
+      linkGroup: p.linkGroup,
+      compareSymbols: p.compareSymbols,
+      percentAxis: p.percentAxis,
+    })));
+    setGridLayout(ws.layout);
+    setActiveIndex(ws.activePanel);
+  };
+  const layouts = useWorkspace(workspace, applyWorkspace);
+  const shareWorkspace = () => {
+    const url = `${window.location.origin}${window.location.pathname}?${layouts.shareQuery}`;
+    navigator.clipboard?.writeText(url).then(
+      () => pushToast({ title: "Link copied", message: "Anyone with the link sees this view", tone: "success" }),
+      () => pushToast({ title: "Could not copy link", message: url, tone: "error" }),
+    );
+  };
 
-    // Remove all sub panes first, then add selected
-    SUB_INDICATORS.forEach((ind) => {
-      try { chart.removeIndicator(ind); } catch { /* ignore */ }
+  const showHistoryError = useCallback((error: DataError) => {
+    pushToast({ title: "Could not load older candles", message: describeDataError(error), tone: "error" });
+  }, [pushToast]);
+  // Offered by a chart whose history fails to load, as an explicit choice rather than a silent fallback
+  const demoProvider = PROVIDERS.find((p) => p.demo);
+  const switchToDemo = demoProvider ? () => setProviderId(demoProvider.id) : undefined;
+
+  const { alerts, addAlert, removeAlert, toggleAlert } = useAlerts(provider, (_alert, message) => {
+    pushToast({ title: "Alert triggered", message, tone: "warning" });
+  });
+
+  const paper = usePaperTrading(provider, (order, price) => {
+    pushToast({
+      title: "Paper order filled",
+      message: `${order.side === "buy" ? "Bought" : "Sold"} ${order.qty} ${order.symbol} @ ${formatPrice(price)} (${order.type})`,
+      tone: "success",
     });
-    subIndicators.forEach((ind) => chart.createIndicator(ind, false));
+  });
 
-    // Connect WebSocket for real-time updates
-    wsRef.current = createKlineWebSocket(symbol.symbol, timeframe.interval, (klineData) => {
-      chart.updateData(klineData);
+  // Load the provider's symbol universe, keeping the current symbol if it is listed
+  useEffect(() => {
+    let cancelled = false;
+    provider.getSymbols().then((list) => {
+      if (cancelled || list.length === 0) return;
+      setSymbols(list);
+      setPanels((prev) => prev.map((p) => ({ ...p, symbol: list.find((s) => s.symbol === p.symbol.symbol) ?? list[0] })));
     });
+    return () => { cancelled = true; };
+  }, [provider, symbolsRevision]);
 
-    setIsLoading(false);
-  }, [symbol, timeframe, chartType, mainIndicators, subIndicators]);
+  // Imported datasets are read from IndexedDB after mount; the symbol lists and
+  // the import dialog pick them up once they are in
+  useEffect(() => {
+    loadDatasets().then((list) => {
+      if (list.length > 0) setSymbolsRevision((r) => r + 1);
+    });
+  }, []);
 
-  useEffect(() => { loadData(); }, [loadData]);
+  // Track realtime connection health for the header badge
+  useEffect(() => provider.subscribeStatus(setConnectionStatus), [provider]);
 
-  // Fetch ticker data periodically
+  // Fetch ticker data periodically; the last good ticker stays up through
+  // failures, and a rate limit pauses polling for as long as the server asks
   useEffect(() => {
+    let pausedUntil = 0;
     const update = async () => {
-      const t = await fetchTicker(symbol.symbol);
-      if (t) setTicker(t);
+      if (Date.now() < pausedUntil) return;
+      try {
+        const t = await provider.getTicker(symbol.symbol);
+        if (t) setTicker(t);
+        setTickerError(null);
+      } catch (error) {
+        const dataError = toDataError(error);
+        if (dataError.retryAfterMs) pausedUntil = Date.now() + dataError.retryAfterMs;
+        setTickerError(dataError);
+      }
     };
     update();
     tickerIntervalRef.current = setInterval(update, 3000);
     return () => { if (tickerIntervalRef.current) clearInterval(tickerIntervalRef.current); };
-  }, [symbol]);
+  }, [provider, symbol]);
 
-  // Fetch order book periodically
-  useEffect(() => {
-    const update = async () => {
-      const ob = await fetchOrderBook(symbol.symbol);
-      setOrderBook(ob);
-    };
-    update();
-    orderBookIntervalRef.current = setInterval(update, 2000);
-    return () => { if (orderBookIntervalRef.current) clearInterval(orderBookIntervalRef.current); };
-  }, [symbol]);
+  const updateActive = (fn: (panel: ChartPanelState) => Partial<ChartPanelState>) => {
+    setPanels((prev) => prev.map((p, i) => (i === activeIndex ? { ...p, ...fn(p) } : p)));
+  };
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => { wsRef.current?.close(); };
-  }, []);
+  // A symbol change carries over to every panel in the same link group;
+  // kept stable per active panel so the memoised watchlist does not re-render on every tick
+  const setSymbol = useCallback((next: SymbolInfo) => {
+    setPanels((prev) => {
+      const group = prev[activeIndex]?.linkGroup;
+      return prev.map((p, i) => (i === activeIndex || (group && p.linkGroup === group) ? { ...p, symbol: next } : p));
+    });
+  }, [activeIndex]);
+
+  // Joining a group adopts the symbol the group is already showing
+  const changeLinkGroup = (index: number, group: string | null) => {
+    setPanels((prev) => {
+      const leader = group ? prev.find((p, i) => i !== index && i < gridLayout && p.linkGroup === group) : undefined;
+      return prev.map((p, i) => (i === index ? { ...p, linkGroup: group, symbol: leader?.symbol ?? p.symbol } : p));
+    });
+  };
+
+  // Growing the grid fills new cells with copies of the active panel
+  const changeGridLayout = (layout: GridLayout) => {
+    setPanels((prev) => {
+      const source = prev[activeIndex] ?? prev[0];
+      return prev.length >= layout
+        ? prev
+        : [...prev, ...Array.from({ length: layout - prev.length }, () => ({ ...source, linkGroup: null }))];
+    });
+    setGridLayout(layout);
+    setActiveIndex((prev) => (prev < layout ? prev : 0));
+  };
+
+  // The first comparison switches to the percentage axis the lines are meant to be read on
+  const changeCompare = (list: string[]) => {
+    updateActive((p) => ({
+      compareSymbols: list,
+      percentAxis: p.compareSymbols.length === 0 && list.length > 0 ? true : p.percentAxis,
+    }));
+  };
 
   const toggleMainIndicator = (ind: string) => {
-    setMainIndicators((prev) =>
-      prev.includes(ind) ? prev.filter((i) => i !== ind) : [...prev, ind],
-    );
+    updateActive((p) => ({ mainIndicators: toggle(p.mainIndicators, ind) }));
   };
   const toggleSubIndicator = (ind: string) => {
-    setSubIndicators((prev) =>
-      prev.includes(ind) ? prev.filter((i) => i !== ind) : [...prev, ind],
-    );
+    updateActive((p) => ({ subIndicators: toggle(p.subIndicators, ind) }));
+  };
+
+  // Indicator settings apply live to the indicator's pane without reloading data
+  const indicatorPaneId = (ind: string) => (MAIN_INDICATORS.includes(ind) ? "candle_pane" : ind);
+  const changeIndicatorSettings = (ind: string, value: IndicatorSettings) => {
+    updateSettings(ind, value);
+    chartsRef.current.forEach((chart) => chart.overrideIndicator(toIndicatorCreate(ind, value), indicatorPaneId(ind)));
+  };
+  const resetIndicatorSettings = (ind: string) => {
+    resetSettings(ind);
+    chartsRef.current.forEach((chart) => chart.overrideIndicator(toIndicatorCreate(ind), indicatorPaneId(ind)));
+  };
+
+  // Re-setting the panels' lists rebuilds their indicators from the re-registered template;
+  // a new indicator is switched on in the active panel
+  const saveCustom = (value: Omit<CustomIndicator, "id"> & { id?: string }) => {
+    const saved = saveCustomIndicator(value);
+    const name = customIndicatorName(saved.id);
+    setPanels((prev) => prev.map((p, i) => {
+      const active = p.mainIndicators.includes(name) || p.subIndicators.includes(name) || (!value.id && i === activeIndex);
+      return {
+        ...p,
+        mainIndicators: [...p.mainIndicators.filter((ind) => ind !== name), ...(active && saved.placement === "main" ? [name] : [])],
+        subIndicators: [...p.subIndicators.filter((ind) => ind !== name), ...(active && saved.placement === "sub" ? [name] : [])],
+      };
+    }));
+    setEditingCustom(null);
+  };
+  const deleteCustom = (id: string) => {
+    const name = customIndicatorName(id);
+    setPanels((prev) => prev.map((p) => ({
+      ...p,
+      mainIndicators: p.mainIndicators.filter((i) => i !== name),
+      subIndicators: p.subIndicators.filter((i) => i !== name),
+    })));
+    removeCustomIndicator(id);
+    setEditingCustom(null);
+  };
+
+  // An imported file opens in the active panel at the file's own timeframe; if the
+  // browser won't store it, it still opens, with a warning that a reload loses it
+  const importDataset = async (dataset: ImportedDataset) => {
+    setImporting(null);
+    let saved = true;
+    try {
+      await addDataset(dataset);
+    } catch {
+      saved = false;
+    }
+    setProviderId(FILE_PROVIDER_ID);
+    setSymbolsRevision((r) => r + 1);
+    updateActive((p) => ({ symbol: datasetSymbol(dataset), timeframe: timeframeFor(dataset.interval) ?? p.timeframe }));
+    pushToast(saved
+      ? { title: "File imported", message: `${dataset.name}: ${dataset.bars.length} candles`, tone: "success" }
+      : {
+          title: "File imported but not saved",
+          message: `${dataset.name} is too large for browser storage and will be gone after a reload`,
+          tone: "warning",
+        });
   };
 
   const priceUp = ticker && parseFloat(ticker.priceChangePercent) >= 0;
@@ -164,31 +325,50 @@ export default function Dashboard() {
           <div className="h-5 w-px bg-[#2a2e37]" />
 
           {/* Symbol Selector */}
-          <div className="relative">
-            <button
-              onClick={() => setShowSymbolList(!showSymbolList)}
-              className="flex items-center gap-2 rounded px-3 py-1.5 text-sm font-semibold hover:bg-[#1a1d23]"
-            >
-              <span className="text-white">{symbol.pair}</span>
-              <svg className="h-3 w-3 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-              </svg>
-            </button>
-            {showSymbolList && (
-              <div className="animate-fade-in absolute left-0 top-full z-50 mt-1 w-48 rounded border border-[#2a2e37] bg-[#1a1d23] py-1 shadow-xl">
-                {SYMBOLS.map((s) => (
-                  <button
-                    key={s.symbol}
-                    onClick={() => { setSymbol(s); setShowSymbolList(false); }}
-                    className={`flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-[#2a2e37] ${s.symbol === symbol.symbol ? "text-yellow-400" : "text-gray-300"}`}
-                  >
-                    <span className="font-medium">{s.pair}</span>
-                    <span className="text-xs text-gray-500">{s.name}</span>
-                  </button>
-                ))}
-              </div>
-            )}
+          <SymbolPicker symbols={symbols} current={symbol} onSelect={setSymbol} />
+
+          {/* Data Provider */}
+          <select
+            value={provider.id}
+            onChange={(e) => setProviderId(e.target.value)}
+            className="rounded border border-[#2a2e37] bg-[#1a1d23] px-2 py-1 text-xs text-gray-300 outline-none hover:border-[#3a3e47]"
+          >
+            {PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+
+          {/* Saved Layouts */}
+          <LayoutMenu
+            layouts={layouts.layouts}
+            activeLayoutId={layouts.activeLayoutId}
+            onCreate={layouts.createLayout}
+            onUpdate={layouts.updateLayout}
+            onSwitch={layouts.switchLayout}
+            onRename={layouts.renameLayout}
+            onDelete={layouts.deleteLayout}
+            onShare={shareWorkspace}
+          />
+
+          {/* Connection Status */}
+          <div className="flex items-center gap-1.5 text-xs text-gray-400">
+            <span className={`h-2 w-2 rounded-full ${CONNECTION_BADGES[connectionStatus].color} ${connectionStatus === "live" || connectionStatus === "offline" ? "" : "animate-pulse"}`} />
+            {CONNECTION_BADGES[connectionStatus].label}
           </div>
+
+          {provider.demo && (
+            <span
+              title="Prices are generated locally and do not reflect any market"
+              className="rounded bg-yellow-400/15 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-yellow-400"
+            >
+              Demo data
+            </span>
+          )}
+          {tickerError && (
+            <span title={describeDataError(tickerError)} className="text-xs text-[#f6465d]">
+              Ticker: {DATA_ERROR_TITLES[tickerError.kind]}
+            </span>
+          )}
         </div>
 
         {/* Ticker Info */}
@@ -196,15 +376,15 @@ export default function Dashboard() {
           <div className="flex items-center gap-6 text-xs">
             <div>
               <span className={`text-lg font-bold ${priceUp ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>
-                {formatPrice(ticker.price)}
+                {formatPrice(ticker.price, symbol.pricePrecision)}
               </span>
               <span className={`ml-2 text-sm ${priceUp ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>
                 {priceUp ? "+" : ""}{parseFloat(ticker.priceChangePercent).toFixed(2)}%
               </span>
             </div>
             <div className="flex gap-4 text-gray-400">
-              <div><span className="text-gray-600">24h High </span>{formatPrice(ticker.high)}</div>
-              <div><span className="text-gray-600">24h Low </span>{formatPrice(ticker.low)}</div>
+              <div><span className="text-gray-600">24h High </span>{formatPrice(ticker.high, symbol.pricePrecision)}</div>
+              <div><span className="text-gray-600">24h Low </span>{formatPrice(ticker.low, symbol.pricePrecision)}</div>
               <div><span className="text-gray-600">24h Vol </span>{formatNumber(parseFloat(ticker.volume))}</div>
             </div>
           </div>
@@ -218,21 +398,14 @@ export default function Dashboard() {
           {/* Toolbar */}
           <div className="flex items-center gap-1 border-b border-[#2a2e37] px-2 py-1">
             {/* Timeframes */}
-            <div className="flex items-center gap-0.5">
-              {TIMEFRAMES.map((tf) => (
-                <button
-                  key={tf.value}
-                  onClick={() => setTimeframe(tf)}
-                  className={`rounded px-2.5 py-1 text-xs font-medium transition-colors ${
-                    timeframe.value === tf.value
-                      ? "bg-[#2a2e37] text-yellow-400"
-                      : "text-gray-400 hover:text-gray-200"
-                  }`}
-                >
-                  {tf.label}
-                </button>
-              ))}
-            </div>
+            <TimeframeSelector
+              timeframe={timeframe}
+              pinned={pinnedTimeframes}
+              onSelect={(tf) => updateActive(() => ({ timeframe: tf }))}
+              onTogglePin={togglePinnedTimeframe}
+              timezone={barTimezone}
+              onTimezoneChange={changeBarTimezone}
+            />
 
             <div className="mx-2 h-4 w-px bg-[#2a2e37]" />
 
@@ -245,10 +418,7 @@ export default function Dashboard() {
               ]).map((ct) => (
                 <button
                   key={ct.type}
-                  onClick={() => {
-                    setChartType(ct.type);
-                    chartRef.current?.setStyles({ candle: { type: ct.type } });
-                  }}
+                  onClick={() => updateActive(() => ({ chartType: ct.type }))}
                   className={`rounded px-2 py-1 text-xs ${
                     chartType === ct.type
                       ? "bg-[#2a2e37] text-yellow-400"
@@ -258,24 +428,50 @@ export default function Dashboard() {
                   {ct.label}
                 </button>
               ))}
+              <BarTransformMenu
+                transform={barTransform}
+                onChange={(t) => updateActive(() => ({ barTransform: t }))}
+              />
             </div>
 
             <div className="mx-2 h-4 w-px bg-[#2a2e37]" />
 
+            {/* Comparison Symbols */}
+            <CompareMenu
+              symbols={symbols}
+              current={symbol.symbol}
+              compare={compareSymbols}
+              percentAxis={percentAxis}
+              onChange={changeCompare}
+              onTogglePercent={() => updateActive((p) => ({ percentAxis: !p.percentAxis }))}
+            />
+
+            <div className="mx-2 h-4 w-px bg-[#2a2e37]" />
+
             {/* Main Indicators */}
             <div className="flex items-center gap-0.5">
               {MAIN_INDICATORS.map((ind) => (
-                <button
-                  key={ind}
-                  onClick={() => toggleMainIndicator(ind)}
-                  className={`rounded px-2 py-1 text-xs ${
-                    mainIndicators.includes(ind)
-                      ? "bg-blue-500/20 text-blue-400"
-                      : "text-gray-500 hover:text-gray-300"
-                  }`}
-                >
-                  {ind}
-                </button>
+                <div key={ind} className="flex items-center">
+                  <button
+                    onClick={() => toggleMainIndicator(ind)}
+                    className={`rounded px-2 py-1 text-xs ${
+                      mainIndicators.includes(ind)
+                        ? "bg-blue-500/20 text-blue-400"
+                        : "text-gray-500 hover:text-gray-300"
+                    }`}
+                  >
+                    {ind}
+                  </button>
+                  {mainIndicators.includes(ind) && INDICATOR_META[ind] && (
+                    <button
+                      onClick={() => setSettingsFor(ind)}
+                      title={`${ind} settings`}
+                      className="px-0.5 text-[10px] text-gray-500 hover:text-yellow-400"
+                    >
+                      ⚙
+                    </button>
+                  )}
+                </div>
               ))}
             </div>
 
@@ -284,106 +480,268 @@ export default function Dashboard() {
             {/* Sub Indicators */}
             <div className="flex items-center gap-0.5">
               {SUB_INDICATORS.map((ind) => (
-                <button
-                  key={ind}
-                  onClick={() => toggleSubIndicator(ind)}
-                  className={`rounded px-2 py-1 text-xs ${
-                    subIndicators.includes(ind)
-                      ? "bg-purple-500/20 text-purple-400"
-                      : "text-gray-500 hover:text-gray-300"
-                  }`}
-                >
-                  {ind}
-                </button>
+                <div key={ind} className="flex items-center">
+                  <button
+                    onClick={() => toggleSubIndicator(ind)}
+                    className={`rounded px-2 py-1 text-xs ${
+                      subIndicators.includes(ind)
+                        ? "bg-purple-500/20 text-purple-400"
+                        : "text-gray-500 hover:text-gray-300"
+                    }`}
+                  >
+                    {ind}
+                  </button>
+                  {subIndicators.includes(ind) && INDICATOR_META[ind] && (
+                    <button
+                      onClick={() => setSettingsFor(ind)}
+                      title={`${ind} settings`}
+                      className="px-0.5 text-[10px] text-gray-500 hover:text-yellow-400"
+                    >
+                      ⚙
+                    </button>
+                  )}
+                </div>
               ))}
             </div>
-          </div>
 
-          {/* Chart Container */}
-          <div className="relative flex-1">
-            {isLoading && (
-              <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#0b0e11]/80">
-                <div className="h-8 w-8 animate-spin rounded-full border-2 border-yellow-400 border-t-transparent" />
-              </div>
-            )}
-            <div id="main-chart" className="h-full w-full" />
-          </div>
-        </div>
-
-        {/* ====== RIGHT PANEL: ORDER BOOK ====== */}
-        <div className="flex w-72 flex-col bg-[#0b0e11]">
-          <div className="border-b border-[#2a2e37] px-3 py-2">
-            <h3 className="text-xs font-semibold text-gray-400">Order Book</h3>
-          </div>
-
-          {/* Column Headers */}
-          <div className="flex items-center justify-between px-3 py-1 text-[10px] text-gray-600">
-            <span>Price (USDT)</span>
-            <span>Amount</span>
-            <span>Total</span>
-          </div>
+            <div className="mx-2 h-4 w-px bg-[#2a2e37]" />
 
-          {/* Asks (sells) */}
-          <div className="flex flex-1 flex-col-reverse overflow-hidden">
-            {orderBook.asks.map((ask, i) => (
-              <div key={`ask-${i}`} className="group relative flex items-center justify-between px-3 py-[2px] text-[11px]">
-                <div
-                  className="absolute inset-y-0 right-0 bg-[#f6465d]/10"
-                  style={{ width: `${Math.min(100, (ask.total / (orderBook.asks[orderBook.asks.length - 1]?.total || 1)) * 100)}%` }}
-                />
-                <span className="relative z-10 font-mono text-[#f6465d]">{formatPrice(ask.price)}</span>
-                <span className="relative z-10 font-mono text-gray-400">{parseFloat(ask.qty).toFixed(4)}</span>
-                <span className="relative z-10 font-mono text-gray-500">{ask.total.toFixed(4)}</span>
-              </div>
-            ))}
-          </div>
+            {/* Custom Indicators */}
+            <div className="flex items-center gap-0.5">
+              {customIndicators.map((custom) => {
+                const name = customIndicatorName(custom.id);
+                const isMain = custom.placement === "main";
+                const active = (isMain ? mainIndicators : subIndicators).includes(name);
+                return (
+                  <div key={custom.id} className="flex items-center">
+                    <button
+                      onClick={() => (isMain ? toggleMainIndicator(name) : toggleSubIndicator(name))}
+                      className={`rounded px-2 py-1 text-xs ${
+                        active
+                          ? isMain ? "bg-blue-500/20 text-blue-400" : "bg-purple-500/20 text-purple-400"
+                          : "text-gray-500 hover:text-gray-300"
+                      }`}
+                    >
+                      {custom.name}
+                    </button>
+                    <button
+                      onClick={() => setEditingCustom(custom)}
+                      title={`Edit ${custom.name}`}
+                      className="px-0.5 text-[10px] text-gray-500 hover:text-yellow-400"
+                    >
+                      ✎
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setEditingCustom("new")}
+                title="New custom indicator"
+                className="rounded px-2 py-1 text-xs italic text-gray-500 hover:text-yellow-400"
+              >
+                ƒx
+              </button>
+            </div>
 
-          {/* Spread / Current Price */}
-          <div className="border-y border-[#2a2e37] px-3 py-2 text-center">
-            {ticker && (
-              <span className={`text-base font-bold ${priceUp ? "text-[#0ecb81]" : "text-[#f6465d]"}`}>
-                {formatPrice(ticker.price)}
-              </span>
-            )}
-          </div>
+            {/* Active panel controls (replay) */}
+            <div ref={setControlsHost} className="ml-auto flex items-center gap-0.5" />
+            <button
+              onClick={() => setBacktestOpen((open) => !open)}
+              title="Test a rule-based strategy on this chart"
+              className={`rounded px-2 py-1 text-xs ${
+                backtestOpen ? "bg-[#2a2e37] text-yellow-400" : "text-gray-400 hover:text-gray-200"
+              }`}
+            >
+              Backtest
+            </button>
+            <button
+              onClick={() => setPaperOpen((open) => !open)}
+              title="Simulated trading account"
+              className={`rounded px-2 py-1 text-xs ${
+                paperOpen ? "bg-[#2a2e37] text-yellow-400" : "text-gray-400 hover:text-gray-200"
+              }`}
+            >
+              Paper
+            </button>
+            <button
+              onClick={() => setExportChart(chartsRef.current.get(activeIndex) ?? null)}
+              title="Export data or a chart image"
+              className="rounded px-2 py-1 text-xs text-gray-400 hover:text-gray-200"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => setImporting({ file: null })}
+              title="Chart a local CSV/JSON file"
+              className="rounded px-2 py-1 text-xs text-gray-400 hover:text-gray-200"
+            >
+              Import
+            </button>
 
-          {/* Bids (buys) */}
-          <div className="flex flex-1 flex-col overflow-hidden">
-            {orderBook.bids.map((bid, i) => (
-              <div key={`bid-${i}`} className="group relative flex items-center justify-between px-3 py-[2px] text-[11px]">
-                <div
-                  className="absolute inset-y-0 right-0 bg-[#0ecb81]/10"
-                  style={{ width: `${Math.min(100, (bid.total / (orderBook.bids[orderBook.bids.length - 1]?.total || 1)) * 100)}%` }}
-                />
-                <span className="relative z-10 font-mono text-[#0ecb81]">{formatPrice(bid.price)}</span>
-                <span className="relative z-10 font-mono text-gray-400">{parseFloat(bid.qty).toFixed(4)}</span>
-                <span className="relative z-10 font-mono text-gray-500">{bid.total.toFixed(4)}</span>
-              </div>
-            ))}
-          </div>
+            <div className="mx-2 h-4 w-px bg-[#2a2e37]" />
 
-          {/* Watchlist */}
-          <div className="border-t border-[#2a2e37]">
-            <div className="px-3 py-2">
-              <h3 className="text-xs font-semibold text-gray-400">Watchlist</h3>
-            </div>
-            <div className="max-h-40 overflow-y-auto">
-              {SYMBOLS.slice(0, 6).map((s) => (
+            {/* Grid Layout */}
+            <div className="flex items-center gap-0.5">
+              {GRID_LAYOUTS.map((layout) => (
                 <button
-                  key={s.symbol}
-                  onClick={() => setSymbol(s)}
-                  className={`flex w-full items-center justify-between px-3 py-1.5 text-xs hover:bg-[#1a1d23] ${
-                    s.symbol === symbol.symbol ? "bg-[#1a1d23]" : ""
+                  key={layout}
+                  onClick={() => changeGridLayout(layout)}
+                  title={layout === 1 ? "Single chart" : `${layout} charts`}
+                  className={`rounded px-2 py-1 text-xs ${
+                    gridLayout === layout
+                      ? "bg-[#2a2e37] text-yellow-400"
+                      : "text-gray-400 hover:text-gray-200"
                   }`}
                 >
-                  <span className="font-medium text-gray-300">{s.pair}</span>
-                  <span className="text-gray-500">{s.name}</span>
+                  ⊞{layout}
                 </button>
               ))}
             </div>
           </div>
+
+          <div className="flex min-h-0 flex-1">
+            {/* The active panel renders its drawing toolbar here */}
+            <div ref={setToolbarHost} className="flex" />
+
+            {/* Chart Grid */}
+            <div
+              onDragOver={(e) => { if (e.dataTransfer.types.includes("Files")) e.preventDefault(); }}
+              onDrop={(e) => {
+                if (e.dataTransfer.files.length === 0) return;
+                e.preventDefault();
+                setImporting({ file: e.dataTransfer.files[0] });
+              }}
+              className={`grid min-h-0 min-w-0 flex-1 gap-px ${GRID_CLASSES[gridLayout]}`}
+            >
+              {panels.slice(0, gridLayout).map((panel, i) => (
+                <ChartPanel
+                  key={i}
+                  id={`panel-${i}`}
+                  panel={panel}
+                  provider={provider}
+                  active={i === activeIndex}
+                  showHeader={gridLayout > 1}
+                  alerts={alerts}
+                  paperAccount={paper.account}
+                  indicatorSettingsRef={indicatorSettingsRef}
+                  indicatorSettingsLoaded={indicatorSettingsLoaded}
+                  crosshairSync={crosshairSync}
+                  toolbarHost={toolbarHost}
+                  controlsHost={controlsHost}
+                  onActivate={() => setActiveIndex(i)}
+                  onLinkGroupChange={(group) => changeLinkGroup(i, group)}
+                  onChartReady={(chart, extendHistory) => {
+                    if (chart) chartsRef.current.set(i, chart);
+                    else chartsRef.current.delete(i);
+                    if (chart && extendHistory) historyExtendersRef.current.set(i, extendHistory);
+                    else historyExtendersRef.current.delete(i);
+                  }}
+                  onAmendOrder={paper.amendOrder}
+                  barTimezone={barTimezone}
+                  onDataError={showHistoryError}
+                  onUseDemo={switchToDemo}
+                />
+              ))}
+            </div>
+          </div>
+
+          {backtestOpen && (
+            <BacktestPanel
+              symbol={symbol}
+              interval={timeframe.interval}
+              getChart={() => chartsRef.current.get(activeIndex)}
+              getHistoryExtender={() => historyExtendersRef.current.get(activeIndex)}
+              scope={`${activeIndex}:${provider.id}:${symbol.symbol}:${timeframe.interval}`}
+              onClose={() => setBacktestOpen(false)}
+            />
+          )}
+
+          {paperOpen && (
+            <PaperTradingPanel
+              account={paper.account}
+              prices={paper.prices}
+              pausedOn={paper.pausedOn}
+              symbol={symbol}
+              lastPrice={ticker?.price}
+              onSubmit={paper.submitOrder}
+              onCancel={paper.cancelOrder}
+              onClosePosition={paper.closePosition}
+              onReset={paper.resetAccount}
+              onClose={() => setPaperOpen(false)}
+            />
+          )}
+        </div>
+
+        {/* ====== RIGHT PANEL: ORDER BOOK ====== */}
+        <div className="flex w-72 flex-col bg-[#0b0e11]">
+          <OrderBook
+            provider={provider}
+            symbol={symbol}
+            lastPrice={ticker?.price}
+            priceUp={!!priceUp}
+          />
+
+          <RecentTrades provider={provider} symbol={symbol} />
+
+          <AlertsPanel
+            alerts={alerts}
+            providerId={provider.id}
+            symbol={symbol}
+            interval={timeframe.interval}
+            lastPrice={ticker?.price}
+            onAdd={addAlert}
+            onRemove={removeAlert}
+            onToggle={toggleAlert}
+          />
+
+          <Watchlist provider={provider} symbols={symbols} current={symbol} onSelect={setSymbol} />
         </div>
       </div>
+
+      {settingsFor && (
+        <IndicatorSettingsDialog
+          key={settingsFor}
+          name={settingsFor}
+          settings={indicatorSettings[settingsFor]}
+          onChange={(value) => changeIndicatorSettings(settingsFor, value)}
+          onReset={() => resetIndicatorSettings(settingsFor)}
+          onClose={() => setSettingsFor(null)}
+        />
+      )}
+
+      {editingCustom && (
+        <CustomIndicatorDialog
+          key={editingCustom === "new" ? "new" : editingCustom.id}
+          indicator={editingCustom === "new" ? undefined : editingCustom}
+          onSave={saveCustom}
+          onDelete={editingCustom === "new" ? undefined : () => deleteCustom(editingCustom.id)}
+          onClose={() => setEditingCustom(null)}
+        />
+      )}
+
+      {exportChart && (
+        <ExportDialog
+          chart={exportChart}
+          symbol={symbol}
+          timeframe={timeframe}
+          providerName={provider.name}
+          onClose={() => setExportChart(null)}
+        />
+      )}
+
+      {importing && (
+        <ImportDialog
+          initialFile={importing.file}
+          datasets={getDatasets()}
+          onImport={importDataset}
+          onRemove={(s) => {
+            removeDataset(s).then(() => setSymbolsRevision((r) => r + 1));
+          }}
+          onClose={() => setImporting(null)}
+        />
+      )}
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }